@@ -32,4 +32,7 @@ export const config = {
   
   // Dumps directory
   dumpsDir: process.env.DUMPS_DIR || '/dumps',
+
+  // debug | info | warn | error; can be changed at runtime via PUT /internal/log-level
+  logLevel: process.env.LOG_LEVEL || 'info',
 };
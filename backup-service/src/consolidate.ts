@@ -5,10 +5,16 @@ import { readFile, writeFile, unlink, readdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { performFullDump } from './dump';
+import { timeBackupOperation } from './metrics';
+import { logger } from './logger';
 
 // Consolidate all pending dumps into a single file
 export async function consolidateDumps(): Promise<string | null> {
-  console.log('[CONSOLIDATE] Starting consolidation...');
+  return timeBackupOperation('consolidate', runConsolidation, (filepath) => filepath !== null);
+}
+
+async function runConsolidation(): Promise<string | null> {
+  logger.info('Starting consolidation', { component: 'consolidate' });
   
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   const consolidatedFilename = `consolidated_backup_${timestamp}.sql`;
@@ -51,12 +57,12 @@ ${inventoryContent}
     // Clean up all incremental dumps
     await cleanupIncrementalDumps();
     
-    console.log(`[CONSOLIDATE] Created: ${consolidatedFilename}`);
+    logger.info('Consolidated dump created', { component: 'consolidate', file: consolidatedFilename });
     
     return consolidatedPath;
     
   } catch (e: any) {
-    console.error('[CONSOLIDATE] Error:', e.message);
+    logger.error('Consolidation error', { component: 'consolidate', error: e });
     return null;
   }
 }
@@ -71,11 +77,11 @@ async function cleanupIncrementalDumps(): Promise<void> {
       if (file.includes('_incremental_') && file.endsWith('.sql')) {
         const filepath = join(config.dumpsDir, file);
         await unlink(filepath);
-        console.log(`[CLEANUP] Deleted: ${file}`);
+        logger.info('Deleted incremental dump', { component: 'cleanup', file });
       }
     }
   } catch (e: any) {
-    console.error('[CLEANUP] Error:', e.message);
+    logger.error('Cleanup error', { component: 'cleanup', error: e });
   }
 }
 
@@ -5,6 +5,8 @@ import { readFile, writeFile, readdir, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
 import { $ } from 'bun';
+import { timeBackupOperation } from './metrics';
+import { logger } from './logger';
 
 const TRACKING_FILE = join(config.dumpsDir, '.last_dump_tracking.json');
 
@@ -26,7 +28,7 @@ async function loadTracking(): Promise<DumpTracking> {
       return JSON.parse(data);
     }
   } catch (e) {
-    console.error('[DUMP] Error loading tracking:', e);
+    logger.error('Error loading dump tracking', { component: 'dump', error: e });
   }
   
   return {
@@ -103,14 +105,18 @@ async function queryToInserts(
     
     return { sql, count: rows.length, maxId, maxCreatedAt };
   } catch (e: any) {
-    console.error(`[DUMP] Query error for ${tableName}:`, e.message);
+    logger.error('Dump query error', { component: 'dump', table: tableName, error: e });
     return { sql: '', count: 0 };
   }
 }
 
 // Main incremental dump function
 export async function performIncrementalDump(): Promise<{ orderDump: string | null; inventoryDump: string | null; stats: any }> {
-  console.log('[DUMP] Starting incremental dump...');
+  return timeBackupOperation('dump', runIncrementalDump);
+}
+
+async function runIncrementalDump(): Promise<{ orderDump: string | null; inventoryDump: string | null; stats: any }> {
+  logger.info('Starting incremental dump', { component: 'dump' });
   
   const tracking = await loadTracking();
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -148,7 +154,7 @@ export async function performIncrementalDump(): Promise<{ orderDump: string | nu
   }
   
   await writeFile(orderFilepath, orderSql);
-  console.log(`[DUMP] Order DB: ${ordersResult.count} new records -> ${orderFilename}`);
+  logger.info('Order DB dumped', { component: 'dump', records: ordersResult.count, file: orderFilename });
   
   // === INVENTORY DB DUMP ===
   const invFilename = `inventory_db_incremental_${timestamp}.sql`;
@@ -174,7 +180,7 @@ export async function performIncrementalDump(): Promise<{ orderDump: string | nu
   }
   
   await writeFile(invFilepath, invSql);
-  console.log(`[DUMP] Inventory DB: ${opsResult.count} new operations -> ${invFilename}`);
+  logger.info('Inventory DB dumped', { component: 'dump', records: opsResult.count, file: invFilename });
   
   // Update tracking
   const newTracking: DumpTracking = {
@@ -188,7 +194,7 @@ export async function performIncrementalDump(): Promise<{ orderDump: string | nu
   };
   
   await saveTracking(newTracking);
-  console.log('[DUMP] Tracking updated:', newTracking);
+  logger.debug('Dump tracking updated', { component: 'dump', tracking: newTracking });
   
   return {
     orderDump: orderFilepath,
@@ -199,7 +205,7 @@ export async function performIncrementalDump(): Promise<{ orderDump: string | nu
 
 // Full dump for consolidation (includes schema + all data)
 export async function performFullDump(): Promise<{ orderDump: string; inventoryDump: string }> {
-  console.log('[DUMP] Starting full dump for consolidation...');
+  logger.info('Starting full dump for consolidation', { component: 'dump' });
   
   const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
   
@@ -209,7 +215,7 @@ export async function performFullDump(): Promise<{ orderDump: string; inventoryD
   
   const orderResult = await $`PGPASSWORD=${config.orderDb.password} pg_dump -h ${config.orderDb.host} -p ${config.orderDb.port} -U ${config.orderDb.user} ${config.orderDb.database} --no-owner --no-acl`.text();
   await writeFile(orderFilepath, orderResult);
-  console.log(`[DUMP] Full order dump: ${orderFilename}`);
+  logger.info('Full order dump written', { component: 'dump', file: orderFilename });
   
   // Inventory DB full dump
   const invFilename = `inventory_db_full_${timestamp}.sql`;
@@ -217,7 +223,7 @@ export async function performFullDump(): Promise<{ orderDump: string; inventoryD
   
   const invResult = await $`PGPASSWORD=${config.inventoryDb.password} pg_dump -h ${config.inventoryDb.host} -p ${config.inventoryDb.port} -U ${config.inventoryDb.user} ${config.inventoryDb.database} --no-owner --no-acl`.text();
   await writeFile(invFilepath, invResult);
-  console.log(`[DUMP] Full inventory dump: ${invFilename}`);
+  logger.info('Full inventory dump written', { component: 'dump', file: invFilename });
   
   return { orderDump: orderFilepath, inventoryDump: invFilepath };
 }
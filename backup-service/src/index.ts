@@ -6,10 +6,14 @@ import { config } from './config';
 import { performIncrementalDump, getDumpStatus } from './dump';
 import { consolidateDumps, getConsolidationStatus } from './consolidate';
 import { uploadBackup, checkUploadStatus, listRemoteBackups } from './upload';
+import { registerMetrics, printMetrics } from './metrics';
+import { logger, logContextMiddleware, runWithLogContext, getLogLevel, setLogLevel, isLogLevel } from './logger';
 
 const app = new Hono();
 
 app.use('/*', cors());
+app.use('/*', registerMetrics);
+app.use('/*', logContextMiddleware);
 
 // State tracking
 let lastDumpTime: Date | null = null;
@@ -38,6 +42,29 @@ app.get('/health', async (c) => {
   });
 });
 
+// Prometheus metrics
+app.get('/metrics', printMetrics);
+
+// Current log level
+app.get('/internal/log-level', (c) => {
+  return c.json({ level: getLogLevel() });
+});
+
+// Change the log level without a restart
+app.put('/internal/log-level', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+
+  if (!isLogLevel(body.level)) {
+    return c.json({ error: { code: 'BAD_REQUEST', message: 'level must be one of debug, info, warn, error' } }, 400);
+  }
+
+  const previous = getLogLevel();
+  setLogLevel(body.level);
+  logger.warn('Log level changed', { previous_level: previous, new_level: body.level });
+
+  return c.json({ level: body.level, previous_level: previous });
+});
+
 // Get backup status
 app.get('/api/backup/status', async (c) => {
   const dumpStatus = await getDumpStatus();
@@ -67,7 +94,7 @@ app.get('/api/backup/status', async (c) => {
 
 // Manual trigger: Incremental dump
 app.post('/api/backup/trigger-dump', async (c) => {
-  console.log('[API] Manual dump triggered');
+  logger.info('Manual dump triggered', { component: 'api' });
   
   try {
     const result = await performIncrementalDump();
@@ -89,7 +116,7 @@ app.post('/api/backup/trigger-dump', async (c) => {
 
 // Manual trigger: Consolidate dumps
 app.post('/api/backup/trigger-consolidate', async (c) => {
-  console.log('[API] Manual consolidation triggered');
+  logger.info('Manual consolidation triggered', { component: 'api' });
   
   try {
     const filepath = await consolidateDumps();
@@ -117,7 +144,7 @@ app.post('/api/backup/trigger-consolidate', async (c) => {
 
 // Manual trigger: Full upload cycle (consolidate + upload)
 app.post('/api/backup/trigger-upload', async (c) => {
-  console.log('[API] Manual upload triggered');
+  logger.info('Manual upload triggered', { component: 'api' });
   
   const bypassRateLimit = c.req.header('X-Bypass-Rate-Limit') === 'true';
   
@@ -224,45 +251,45 @@ app.get('/api/backup/dumps/:filename', async (c) => {
 
 // Scheduler: Run incremental dump every N minutes
 function startDumpScheduler(): void {
-  console.log(`[SCHEDULER] Starting dump scheduler (every ${config.dumpIntervalMs / 1000}s)`);
+  logger.info('Starting dump scheduler', { component: 'scheduler', interval_ms: config.dumpIntervalMs });
   
   // Run first dump after a short delay
-  setTimeout(async () => {
+  setTimeout(() => runWithLogContext({ job: 'scheduled_dump' }, async () => {
     await performIncrementalDump();
     lastDumpTime = new Date();
-  }, 10000); // 10 seconds after startup
+  }), 10000); // 10 seconds after startup
   
   // Then schedule regular dumps
-  dumpIntervalId = setInterval(async () => {
+  dumpIntervalId = setInterval(() => runWithLogContext({ job: 'scheduled_dump' }, async () => {
     try {
       await performIncrementalDump();
       lastDumpTime = new Date();
     } catch (e) {
-      console.error('[SCHEDULER] Dump error:', e);
+      logger.error('Scheduled dump error', { component: 'scheduler', error: e });
     }
-  }, config.dumpIntervalMs);
+  }), config.dumpIntervalMs);
 }
 
 // Scheduler: Check for daily upload at specified hour
 function startUploadScheduler(): void {
-  console.log(`[SCHEDULER] Starting upload scheduler (daily at ${config.uploadHourUtc}:00 UTC)`);
+  logger.info('Starting upload scheduler', { component: 'scheduler', upload_hour_utc: config.uploadHourUtc });
   
   // Check every minute if it's time for daily upload
-  uploadCheckIntervalId = setInterval(async () => {
+  uploadCheckIntervalId = setInterval(() => runWithLogContext({ job: 'daily_upload' }, async () => {
     const now = new Date();
     const currentHourUtc = now.getUTCHours();
     const currentMinuteUtc = now.getUTCMinutes();
     
     // Trigger at the specified hour, minute 0
     if (currentHourUtc === config.uploadHourUtc && currentMinuteUtc === 0) {
-      console.log('[SCHEDULER] Daily upload time reached');
+      logger.info('Daily upload time reached', { component: 'scheduler' });
       
       try {
         // Check if upload is allowed
         const status = await checkUploadStatus();
         
         if (!status.allowed) {
-          console.log('[SCHEDULER] Upload not allowed yet, skipping');
+          logger.info('Upload not allowed yet, skipping', { component: 'scheduler' });
           return;
         }
         
@@ -274,16 +301,16 @@ function startUploadScheduler(): void {
           
           if (result.success) {
             lastUploadTime = new Date();
-            console.log('[SCHEDULER] Daily upload completed successfully');
+            logger.info('Daily upload completed successfully', { component: 'scheduler' });
           } else {
-            console.error('[SCHEDULER] Daily upload failed:', result.message);
+            logger.error('Daily upload failed', { component: 'scheduler', reason: result.message });
           }
         }
       } catch (e) {
-        console.error('[SCHEDULER] Upload error:', e);
+        logger.error('Scheduled upload error', { component: 'scheduler', error: e });
       }
     }
-  }, 60000); // Check every minute
+  }), 60000); // Check every minute
 }
 
 // Start schedulers
@@ -295,7 +322,7 @@ function startSchedulers(): void {
 
 // Graceful shutdown
 process.on('SIGTERM', () => {
-  console.log('[SCHEDULER] Shutting down...');
+  logger.info('Shutting down', { component: 'scheduler' });
   isRunning = false;
   if (dumpIntervalId) clearInterval(dumpIntervalId);
   if (uploadCheckIntervalId) clearInterval(uploadCheckIntervalId);
@@ -303,11 +330,13 @@ process.on('SIGTERM', () => {
 });
 
 // Start the service
-console.log(`Backup Service running on port ${config.port}`);
-console.log(`  - Dump interval: ${config.dumpIntervalMs / 1000}s`);
-console.log(`  - Upload hour (UTC): ${config.uploadHourUtc}:00`);
-console.log(`  - Dumps directory: ${config.dumpsDir}`);
-console.log(`  - Mock backup URL: ${config.mockBackupUrl}`);
+logger.info(`Backup Service running on port ${config.port}`, {
+  port: config.port,
+  dump_interval_ms: config.dumpIntervalMs,
+  upload_hour_utc: config.uploadHourUtc,
+  dumps_dir: config.dumpsDir,
+  mock_backup_url: config.mockBackupUrl,
+});
 
 startSchedulers();
 
@@ -0,0 +1,94 @@
+// Trimmed copy of order-service/src/helpers/logger.ts, without request context or
+// trace ids; keep the line format the same so all services log alike.
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Context, Next } from 'hono';
+import { config } from './config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields attached to every line logged while the context is active
+export interface LogContext {
+  request_id?: string;
+  correlation_id?: string;
+  [field: string]: unknown;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+let currentLevel: LogLevel = isLogLevel(config.logLevel) ? config.logLevel : 'info';
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * Run `fn` with extra context fields on top of the current ones
+ */
+export function runWithLogContext<T>(fields: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Log context per request, seeded from the X-Request-ID / X-Correlation-ID headers
+ */
+export async function logContextMiddleware(c: Context, next: Next) {
+  await runWithLogContext({
+    request_id: c.req.header('X-Request-ID'),
+    correlation_id: c.req.header('X-Correlation-ID'),
+  }, next);
+}
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    const code = 'code' in error ? error.code : undefined;
+    return { name: error.name, message: error.message, code, stack: error.stack };
+  }
+  return error;
+}
+
+function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+
+  const entry: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    service: 'backup-service',
+    message,
+    ...contextStorage.getStore(),
+    ...fields,
+  };
+
+  // Context and call-site fields never replace the core keys
+  entry.level = level;
+  entry.message = message;
+
+  if ('error' in fields) {
+    entry.error = serializeError(fields.error);
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+  } catch {
+    line = JSON.stringify({ timestamp: entry.timestamp, level, service: entry.service, message });
+  }
+
+  (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(line + '\n');
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields),
+};
@@ -0,0 +1,55 @@
+// Prometheus Metrics
+
+import type { Context } from 'hono';
+import { prometheus } from '@hono/prometheus';
+import { Counter, Histogram, Registry } from 'prom-client';
+
+export const registry = new Registry();
+registry.setDefaultLabels({ service: 'backup-service' });
+
+// Request count and latency histogram per method/route/status for every route
+export const { registerMetrics } = prometheus({ registry, collectDefaultMetrics: true });
+
+export type BackupOperation = 'dump' | 'consolidate' | 'upload';
+
+const operationDuration = new Histogram({
+  name: 'backup_operation_duration_seconds',
+  help: 'Duration of dump, consolidation and upload runs',
+  labelNames: ['operation', 'outcome'] as const,
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [registry],
+});
+
+const operationFailures = new Counter({
+  name: 'backup_operation_failures_total',
+  help: 'Failed dump, consolidation and upload runs',
+  labelNames: ['operation'] as const,
+  registers: [registry],
+});
+
+// Time a backup step; `succeeded` decides for steps that report failure in their result
+export async function timeBackupOperation<T>(
+  operation: BackupOperation,
+  run: () => Promise<T>,
+  succeeded: (result: T) => boolean = () => true
+): Promise<T> {
+  const endTimer = operationDuration.startTimer({ operation });
+
+  try {
+    const result = await run();
+    const ok = succeeded(result);
+    endTimer({ outcome: ok ? 'success' : 'failure' });
+    if (!ok) operationFailures.inc({ operation });
+    return result;
+  } catch (e) {
+    endTimer({ outcome: 'failure' });
+    operationFailures.inc({ operation });
+    throw e;
+  }
+}
+
+// GET /metrics - Prometheus text format
+export async function printMetrics(c: Context) {
+  c.header('Content-Type', registry.contentType);
+  return c.body(await registry.metrics());
+}
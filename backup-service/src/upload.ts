@@ -3,6 +3,8 @@
 import { config } from './config';
 import { readFile, unlink } from 'fs/promises';
 import { existsSync } from 'fs';
+import { timeBackupOperation } from './metrics';
+import { logger } from './logger';
 
 interface UploadResult {
   success: boolean;
@@ -17,7 +19,11 @@ export async function uploadBackup(
   filepath: string,
   bypassRateLimit: boolean = false
 ): Promise<UploadResult> {
-  console.log(`[UPLOAD] Uploading: ${filepath}`);
+  return timeBackupOperation('upload', () => sendBackup(filepath, bypassRateLimit), (result) => result.success);
+}
+
+async function sendBackup(filepath: string, bypassRateLimit: boolean): Promise<UploadResult> {
+  logger.info('Uploading backup', { component: 'upload', file: filepath });
   
   if (!existsSync(filepath)) {
     return {
@@ -49,7 +55,7 @@ export async function uploadBackup(
     const data = await response.json();
     
     if (response.status === 429) {
-      console.log('[UPLOAD] Rate limited - will retry tomorrow');
+      logger.warn('Upload rate limited - will retry tomorrow', { component: 'upload' });
       return {
         success: false,
         message: data.error?.message || 'Rate limited',
@@ -66,11 +72,11 @@ export async function uploadBackup(
       };
     }
     
-    console.log(`[UPLOAD] Success: ${data.backup?.filename}`);
+    logger.info('Upload succeeded', { component: 'upload', remote_file: data.backup?.filename });
     
     // Delete local consolidated file after successful upload
     await unlink(filepath);
-    console.log(`[UPLOAD] Cleaned up local file: ${filename}`);
+    logger.info('Cleaned up local file', { component: 'upload', file: filename });
     
     return {
       success: true,
@@ -79,7 +85,7 @@ export async function uploadBackup(
     };
     
   } catch (e: any) {
-    console.error('[UPLOAD] Error:', e.message);
+    logger.error('Upload error', { component: 'upload', error: e });
     return {
       success: false,
       message: e.message,
@@ -104,7 +110,7 @@ export async function checkUploadStatus(): Promise<{
       nextAllowedAt: data.next_allowed_at,
     };
   } catch (e: any) {
-    console.error('[UPLOAD] Status check error:', e.message);
+    logger.error('Upload status check error', { component: 'upload', error: e });
     return {
       allowed: false,
       lastUploadAt: null,
@@ -121,7 +127,7 @@ export async function listRemoteBackups(): Promise<any[]> {
     
     return data.backups || [];
   } catch (e: any) {
-    console.error('[UPLOAD] List error:', e.message);
+    logger.error('Remote backup list error', { component: 'upload', error: e });
     return [];
   }
 }
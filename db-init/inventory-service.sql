@@ -1,4 +1,8 @@
 -- Inventory Service Database Initialization
+--
+-- Runs on an empty volume through docker-entrypoint-initdb.d. Every statement is
+-- idempotent, so `make dev-migrate` / `make prod-migrate` re-run this file to bring
+-- an existing database up to date.
 
 -- Products Table
 CREATE TABLE IF NOT EXISTS products (
@@ -17,7 +21,7 @@ CREATE TABLE IF NOT EXISTS inventory_operations (
     operation_id SERIAL PRIMARY KEY,
     
     -- Operation details
-    operation_type VARCHAR(20) NOT NULL CHECK (operation_type IN ('deduct', 'adjust')),
+    operation_type VARCHAR(20) NOT NULL CHECK (operation_type IN ('deduct', 'adjust', 'restore')),
     product_id VARCHAR(64) NOT NULL,
     quantity_change INT NOT NULL,
     
@@ -27,6 +31,9 @@ CREATE TABLE IF NOT EXISTS inventory_operations (
     
     -- Idempotency: Links to order (NULL for manual adjustments)
     order_id VARCHAR(64),
+    line_no INT NOT NULL DEFAULT 1,
+    -- Hash of the deduct request, repeated on every line; a replay must match it
+    request_fingerprint VARCHAR(64),
     
     -- Manual adjustment details (NULL for deduct operations)
     adjustment_reason VARCHAR(50) CHECK (adjustment_reason IN ('restock', 'correction', 'damage') OR adjustment_reason IS NULL),
@@ -46,8 +53,23 @@ CREATE TABLE IF NOT EXISTS inventory_operations (
     FOREIGN KEY (product_id) REFERENCES products(product_id) ON DELETE CASCADE
 );
 
+ALTER TABLE inventory_operations ADD COLUMN IF NOT EXISTS line_no INT NOT NULL DEFAULT 1;
+ALTER TABLE inventory_operations ADD COLUMN IF NOT EXISTS request_fingerprint VARCHAR(64);
+ALTER TABLE inventory_operations DROP CONSTRAINT IF EXISTS inventory_operations_operation_type_check;
+ALTER TABLE inventory_operations ADD CONSTRAINT inventory_operations_operation_type_check
+    CHECK (operation_type IN ('deduct', 'adjust', 'restore'));
+
+-- The index used to be per (order_id, operation_type), which rejects the second line of a cart
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM pg_indexes WHERE indexname = 'unique_order_deduction' AND indexdef NOT LIKE '%line_no%') THEN
+        DROP INDEX unique_order_deduction;
+    END IF;
+END $$;
+
 -- CRITICAL: Prevent duplicate deductions for same order (Schrödinger's Warehouse solution)
-CREATE UNIQUE INDEX IF NOT EXISTS unique_order_deduction ON inventory_operations(order_id, operation_type) WHERE order_id IS NOT NULL;
+-- Every deduct (and restore) writes line 1, so concurrent attempts for the same order still collide on it
+CREATE UNIQUE INDEX IF NOT EXISTS unique_order_deduction ON inventory_operations(order_id, operation_type, line_no) WHERE order_id IS NOT NULL;
 
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_product_id ON inventory_operations(product_id);
@@ -56,6 +78,19 @@ CREATE INDEX IF NOT EXISTS idx_operation_type ON inventory_operations(operation_
 CREATE INDEX IF NOT EXISTS idx_created_at ON inventory_operations(created_at);
 CREATE INDEX IF NOT EXISTS idx_correlation_id ON inventory_operations(correlation_id);
 
+-- Deduction Tombstones
+-- Written by the order service once it has given up on an order, so a late
+-- deduct for that order_id is rejected instead of silently taking stock
+CREATE TABLE IF NOT EXISTS deduction_tombstones (
+    order_id VARCHAR(64) PRIMARY KEY,
+    reason TEXT,
+
+    request_id VARCHAR(64),
+    correlation_id VARCHAR(64),
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
 -- Sample Data
 INSERT INTO products (product_id, name, stock_level) VALUES
 ('PROD-001', 'Gaming Console - PS5', 100),
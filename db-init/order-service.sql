@@ -1,41 +1,241 @@
 -- Order Service Database Initialization
+--
+-- Runs on an empty volume through docker-entrypoint-initdb.d. Every statement is
+-- idempotent, so `make dev-migrate` / `make prod-migrate` re-run this file to bring
+-- an existing database up to date; the ALTERs after each table cover columns and
+-- checks added since it was first created.
 
 -- Orders Table
 CREATE TABLE IF NOT EXISTS orders (
     order_id VARCHAR(64) PRIMARY KEY,
-    product_id VARCHAR(64) NOT NULL,
-    quantity INT NOT NULL CHECK (quantity > 0),
-    status VARCHAR(20) NOT NULL CHECK (status IN ('confirmed', 'failed', 'undecided')),
+    -- Owner of the order; NULL for orders placed without a user
+    user_id VARCHAR(64),
+    -- Single-line orders only; multi-line orders keep their lines in order_items
+    product_id VARCHAR(64),
+    quantity INT CHECK (quantity > 0),
+    status VARCHAR(20) NOT NULL CHECK (status IN ('pending', 'confirmed', 'failed', 'undecided', 'cancelled')),
     error_message TEXT,
     
+    -- Hash of the cart the order was placed with; replays must match it
+    request_fingerprint VARCHAR(64),
+    
     -- Request tracing
     request_id VARCHAR(64),
     correlation_id VARCHAR(64),
     
+    -- Undecided resolution (and pending re-queueing) by the database sweeper, independent of Redis
+    retry_attempts INT NOT NULL DEFAULT 0,
+    next_retry_at TIMESTAMP,
+    
     -- Timestamps
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
 );
 
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS user_id VARCHAR(64);
+ALTER TABLE orders ALTER COLUMN product_id DROP NOT NULL;
+ALTER TABLE orders ALTER COLUMN quantity DROP NOT NULL;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS request_fingerprint VARCHAR(64);
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS retry_attempts INT NOT NULL DEFAULT 0;
+ALTER TABLE orders ADD COLUMN IF NOT EXISTS next_retry_at TIMESTAMP;
+ALTER TABLE orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE orders ADD CONSTRAINT orders_status_check CHECK (status IN ('pending', 'confirmed', 'failed', 'undecided', 'cancelled'));
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_product_id ON orders(product_id);
 CREATE INDEX IF NOT EXISTS idx_status ON orders(status);
 CREATE INDEX IF NOT EXISTS idx_created_at ON orders(created_at);
+-- Keyset pagination of order listings
+CREATE INDEX IF NOT EXISTS idx_orders_created_at_order_id ON orders(created_at, order_id);
+CREATE INDEX IF NOT EXISTS idx_orders_updated_at_order_id ON orders(updated_at, order_id);
 CREATE INDEX IF NOT EXISTS idx_correlation_id ON orders(correlation_id);
+-- Per-user order history, paginated like the listing
+CREATE INDEX IF NOT EXISTS idx_orders_user_id ON orders(user_id, created_at, order_id);
+
+-- Order Items Table
+-- One row per cart line; every order has at least one line
+CREATE TABLE IF NOT EXISTS order_items (
+    order_id VARCHAR(64) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+    line_no INT NOT NULL CHECK (line_no > 0),
+    product_id VARCHAR(64) NOT NULL,
+    quantity INT NOT NULL CHECK (quantity > 0),
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    PRIMARY KEY (order_id, line_no),
+    UNIQUE(order_id, product_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON order_items(product_id);
+
+-- Orders placed before order_items existed (a database migrated with this file)
+-- get their single line from the legacy columns
+INSERT INTO order_items (order_id, line_no, product_id, quantity, created_at)
+SELECT o.order_id, 1, o.product_id, o.quantity, o.created_at
+FROM orders o
+WHERE o.product_id IS NOT NULL AND o.quantity IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM order_items i WHERE i.order_id = o.order_id)
+ON CONFLICT DO NOTHING;
+
+-- Order Admin Actions Table
+-- Audit trail of manual operator actions (requeue, force-resolve)
+CREATE TABLE IF NOT EXISTS order_admin_actions (
+    action_id SERIAL PRIMARY KEY,
+    order_id VARCHAR(64) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+    action VARCHAR(20) NOT NULL CHECK (action IN ('requeue', 'resolve')),
+    from_status VARCHAR(20) NOT NULL,
+    to_status VARCHAR(20) NOT NULL,
+    reason TEXT,
+    actor VARCHAR(64) NOT NULL,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_admin_actions_order_id ON order_admin_actions(order_id);
+
+-- Order Status History Table
+-- Append-only timeline; written in the same transaction as every status change
+CREATE TABLE IF NOT EXISTS order_status_history (
+    history_id SERIAL PRIMARY KEY,
+    order_id VARCHAR(64) NOT NULL REFERENCES orders(order_id) ON DELETE CASCADE,
+    from_status VARCHAR(20), -- NULL for the status the order was created with
+    to_status VARCHAR(20) NOT NULL,
+    actor VARCHAR(20) NOT NULL CHECK (actor IN ('api', 'worker', 'admin')),
+    attempt INT,
+    error_message TEXT,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_status_history_order_id ON order_status_history(order_id, created_at);
+
+-- Order Request Log
+-- One row per POST /api/orders that reached a decision; raw input for order_stats
+CREATE TABLE IF NOT EXISTS order_request_log (
+    request_log_id BIGSERIAL PRIMARY KEY,
+    order_id VARCHAR(64) NOT NULL,
+    outcome VARCHAR(20) NOT NULL CHECK (outcome IN ('accepted', 'confirmed', 'failed', 'undecided', 'cancelled', 'unavailable', 'error')),
+    replay BOOLEAN NOT NULL DEFAULT FALSE, -- true when the order_id already existed
+    latency_ms INT NOT NULL,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE order_request_log DROP CONSTRAINT IF EXISTS order_request_log_outcome_check;
+ALTER TABLE order_request_log ADD CONSTRAINT order_request_log_outcome_check
+    CHECK (outcome IN ('accepted', 'confirmed', 'failed', 'undecided', 'cancelled', 'unavailable', 'error'));
+
+CREATE INDEX IF NOT EXISTS idx_order_request_log_created_at ON order_request_log(created_at);
 
 -- Order Statistics Table
+-- Per-minute rollup of order_request_log, upserted by the stats aggregator
 CREATE TABLE IF NOT EXISTS order_stats (
     stat_id SERIAL PRIMARY KEY,
     minute_bucket TIMESTAMP NOT NULL,
+    total_requests INT DEFAULT 0,
     total_orders INT DEFAULT 0,
     confirmed_orders INT DEFAULT 0,
     failed_orders INT DEFAULT 0,
+    undecided_orders INT DEFAULT 0,
     timeout_errors INT DEFAULT 0,
     avg_response_time_ms INT DEFAULT 0,
+    p50_response_time_ms INT DEFAULT 0,
+    p95_response_time_ms INT DEFAULT 0,
+    p99_response_time_ms INT DEFAULT 0,
     
     created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
     
     UNIQUE(minute_bucket)
 );
 
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS total_requests INT DEFAULT 0;
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS undecided_orders INT DEFAULT 0;
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS p50_response_time_ms INT DEFAULT 0;
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS p95_response_time_ms INT DEFAULT 0;
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS p99_response_time_ms INT DEFAULT 0;
+ALTER TABLE order_stats ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
 CREATE INDEX IF NOT EXISTS idx_minute_bucket ON order_stats(minute_bucket);
+
+-- Webhook Endpoints
+-- Receivers of signed order event notifications
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    endpoint_id SERIAL PRIMARY KEY,
+    url TEXT NOT NULL,
+    event_types TEXT[] NOT NULL, -- subset of created, pending, undecided, confirmed, failed, cancelled
+    secret VARCHAR(128) NOT NULL, -- HMAC-SHA256 key for X-Webhook-Signature
+    description TEXT,
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- Webhook Deliveries
+-- One row per (event, endpoint); each endpoint's pending rows are sent oldest first
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    delivery_id BIGSERIAL PRIMARY KEY,
+    endpoint_id INT NOT NULL REFERENCES webhook_endpoints(endpoint_id) ON DELETE CASCADE,
+    event_id VARCHAR(64) NOT NULL, -- shared by every endpoint's copy; sent as X-Webhook-Id
+    event_type VARCHAR(20) NOT NULL,
+    order_id VARCHAR(64) NOT NULL,
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'delivered', 'dead')),
+    attempts INT NOT NULL DEFAULT 0,
+    next_attempt_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    last_status_code INT,
+    last_error TEXT,
+    delivered_at TIMESTAMP,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    updated_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    UNIQUE(endpoint_id, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_pending ON webhook_deliveries(endpoint_id, delivery_id) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_order_id ON webhook_deliveries(order_id);
+
+-- Webhook Delivery Attempts
+-- Log of every HTTP attempt, kept across manual redeliveries
+CREATE TABLE IF NOT EXISTS webhook_delivery_attempts (
+    attempt_id BIGSERIAL PRIMARY KEY,
+    delivery_id BIGINT NOT NULL REFERENCES webhook_deliveries(delivery_id) ON DELETE CASCADE,
+    attempt INT NOT NULL,
+    status_code INT, -- NULL when no response was received
+    error TEXT,
+    duration_ms INT NOT NULL,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_delivery_attempts_delivery_id ON webhook_delivery_attempts(delivery_id);
+
+-- Order Outbox
+-- Events written in the same transaction as the order change they describe.
+-- The outbox relay publishes them to Redis in outbox_id order and marks them dispatched.
+CREATE TABLE IF NOT EXISTS order_outbox (
+    outbox_id BIGSERIAL PRIMARY KEY,
+    order_id VARCHAR(64) NOT NULL,
+    kind VARCHAR(20) NOT NULL CHECK (kind IN ('order_event', 'retry_event', 'placement')),
+    payload JSONB NOT NULL,
+    traceparent VARCHAR(64), -- trace of the request that made the change
+    correlation_id VARCHAR(64),
+    attempts INT NOT NULL DEFAULT 0,
+    last_error TEXT,
+    next_attempt_at TIMESTAMP, -- backoff after a failed dispatch; NULL means due now
+    parked_at TIMESTAMP, -- set once attempts run out; parked entries are never dispatched
+    dispatched_at TIMESTAMP,
+
+    created_at TIMESTAMP NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+ALTER TABLE order_outbox ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP;
+ALTER TABLE order_outbox ADD COLUMN IF NOT EXISTS parked_at TIMESTAMP;
+ALTER TABLE order_outbox DROP CONSTRAINT IF EXISTS order_outbox_kind_check;
+ALTER TABLE order_outbox ADD CONSTRAINT order_outbox_kind_check CHECK (kind IN ('order_event', 'retry_event', 'placement'));
+
+CREATE INDEX IF NOT EXISTS idx_order_outbox_pending ON order_outbox(outbox_id) WHERE dispatched_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_order_outbox_pending_order ON order_outbox(order_id, outbox_id) WHERE dispatched_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_order_outbox_dispatched_at ON order_outbox(dispatched_at) WHERE dispatched_at IS NOT NULL;
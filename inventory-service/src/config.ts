@@ -9,4 +9,17 @@ export const config = {
   server: {
     port: parseInt(process.env.PORT || '3001'),
   },
+  logging: {
+    // debug | info | warn | error; can be changed at runtime via PUT /internal/log-level
+    level: process.env.LOG_LEVEL || 'info',
+    serviceName: process.env.OTEL_SERVICE_NAME || 'inventory-service',
+  },
+  tracing: {
+    enabled: process.env.TRACING_ENABLED !== 'false',
+    serviceName: process.env.OTEL_SERVICE_NAME || 'inventory-service',
+    // OTLP/HTTP collector base URL; spans are POSTed to /v1/traces
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318',
+    // Spans the collector could not take are appended here as JSON lines; unset, they are dropped
+    fallbackFile: process.env.TRACING_FALLBACK_FILE || null,
+  },
 };
@@ -1,4 +1,14 @@
-import postgres from 'postgres';
+import postgres, { type TransactionSql } from 'postgres';
 import { config } from './config';
+import { withSpan } from './helpers/tracing';
 
 export const sql = postgres(config.db);
+
+/**
+ * sql.begin() wrapped in a trace span named after the operation
+ */
+export function transaction<T>(name: string, fn: (tx: TransactionSql) => Promise<T>): Promise<T> {
+  return withSpan(`db.transaction ${name}`, { 'db.system': 'postgresql', 'db.operation.name': name }, () =>
+    sql.begin(fn) as Promise<T>
+  );
+}
@@ -0,0 +1,43 @@
+import type { Context } from 'hono';
+import type { TransactionSql } from 'postgres';
+
+// Milliseconds the caller will keep waiting for the response
+export const DEADLINE_HEADER = 'X-Deadline-Ms';
+
+export type DeadlineStage = 'before_lock' | 'lock_wait' | 'before_commit';
+
+/**
+ * Local time after which the caller has given up, or null if it sent no budget.
+ * A relative budget is used so the two services' clocks never need to agree.
+ */
+export function readDeadline(c: Context): number | null {
+  const value = c.req.header(DEADLINE_HEADER);
+  if (!value || !/^\d+$/.test(value)) {
+    return null;
+  }
+  return Date.now() + parseInt(value);
+}
+
+/**
+ * Throw if the caller has already given up; throwing inside the transaction rolls it back
+ */
+export function assertDeadline(deadline: number | null, stage: DeadlineStage): void {
+  if (deadline !== null && Date.now() >= deadline) {
+    throw Object.assign(new Error('Deadline exceeded'), { stage });
+  }
+}
+
+/**
+ * Cap lock waits in this transaction at the remaining budget. A wait that runs out
+ * fails with lock_not_available (see isLockTimeout).
+ */
+export async function limitLockWait(tx: TransactionSql, deadline: number | null): Promise<void> {
+  if (deadline === null) return;
+
+  const remainingMs = Math.max(1, deadline - Date.now());
+  await tx`SELECT set_config('lock_timeout', ${`${remainingMs}ms`}, true)`;
+}
+
+export function isLockTimeout(error: any): boolean {
+  return error?.code === '55P03';
+}
@@ -0,0 +1,69 @@
+import { createHash } from 'crypto';
+
+export interface FingerprintItem {
+  product_id: string;
+  quantity: number;
+}
+
+export interface FieldDifference {
+  field: string;
+  original: string | number | null;
+  received: string | number | null;
+}
+
+/**
+ * Stable hash of what a deduct request asks for. Line order does not matter,
+ * so the same cart always produces the same fingerprint.
+ */
+export function requestFingerprint(items: FingerprintItem[]): string {
+  const canonical = [...items]
+    .sort((a, b) => (a.product_id < b.product_id ? -1 : a.product_id > b.product_id ? 1 : 0))
+    .map((item) => [item.product_id, item.quantity]);
+
+  return createHash('sha256').update(JSON.stringify(canonical)).digest('hex');
+}
+
+/**
+ * Fingerprint stored on an order's deduct operations, or one rebuilt from the
+ * operations themselves for rows written before fingerprints were recorded
+ */
+export function storedFingerprint(ops: any[]): string {
+  return ops[0].request_fingerprint ?? requestFingerprint(operationItems(ops));
+}
+
+export function operationItems(ops: any[]): FingerprintItem[] {
+  return ops.map((op) => ({ product_id: op.product_id, quantity: Math.abs(op.quantity_change) }));
+}
+
+/**
+ * Field-level differences between the original request and a replay
+ */
+export function diffItems(original: FingerprintItem[], received: FingerprintItem[]): FieldDifference[] {
+  // Single-line requests are reported in terms of the legacy product_id/quantity fields
+  if (original.length === 1 && received.length === 1) {
+    const differences: FieldDifference[] = [];
+    if (original[0].product_id !== received[0].product_id) {
+      differences.push({ field: 'product_id', original: original[0].product_id, received: received[0].product_id });
+    }
+    if (original[0].quantity !== received[0].quantity) {
+      differences.push({ field: 'quantity', original: original[0].quantity, received: received[0].quantity });
+    }
+    return differences;
+  }
+
+  const originalByProduct = new Map(original.map((item) => [item.product_id, item.quantity]));
+  const receivedByProduct = new Map(received.map((item) => [item.product_id, item.quantity]));
+  const productIds = [...new Set([...originalByProduct.keys(), ...receivedByProduct.keys()])].sort();
+
+  return productIds
+    .filter((productId) => originalByProduct.get(productId) !== receivedByProduct.get(productId))
+    .map((productId) => ({
+      field: `items[${productId}].quantity`,
+      original: originalByProduct.get(productId) ?? null,
+      received: receivedByProduct.get(productId) ?? null,
+    }));
+}
+
+export function idempotencyKeyReused(differences: FieldDifference[]): Error {
+  return Object.assign(new Error('Idempotency key reused'), { differences });
+}
@@ -1,3 +1,6 @@
+import { gremlinDelayedRequests } from './metrics';
+import { withSpan } from './tracing';
+
 let gremlinEnabled = false;
 let requestCounter = 0;
 
@@ -24,9 +27,22 @@ export function shouldDelayRequest(): boolean {
   
   requestCounter++;
   // Every 3rd request gets delayed
-  return requestCounter % 3 === 0;
+  const delayed = requestCounter % 3 === 0;
+  if (delayed) {
+    gremlinDelayedRequests.inc();
+  }
+  return delayed;
 }
 
 export function resetCounter(): void {
   requestCounter = 0;
 }
+
+/**
+ * Sleep for the gremlin delay inside its own span, so traces show where the time went
+ */
+export async function applyGremlinDelay(ms: number = 5000): Promise<void> {
+  await withSpan('gremlin.delay', { 'gremlin.delay_ms': ms }, () =>
+    new Promise<void>((resolve) => setTimeout(resolve, ms))
+  );
+}
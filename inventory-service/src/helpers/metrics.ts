@@ -0,0 +1,36 @@
+import type { Context } from 'hono';
+import { prometheus } from '@hono/prometheus';
+import { Counter, Histogram, Registry } from 'prom-client';
+
+export const registry = new Registry();
+registry.setDefaultLabels({ service: 'inventory-service' });
+
+// Request count and latency histogram per method/route/status for every route
+export const { registerMetrics } = prometheus({ registry, collectDefaultMetrics: true });
+
+export const deductLockWait = new Histogram({
+  name: 'inventory_deduct_lock_wait_seconds',
+  help: 'Time a deduct spent waiting for the per-order advisory lock and the product row locks',
+  labelNames: ['route', 'lock'] as const,
+  buckets: [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5],
+  registers: [registry],
+});
+
+export const deductDeadlineExceeded = new Counter({
+  name: 'inventory_deduct_deadline_exceeded_total',
+  help: 'Deducts refused after the caller deadline passed, by where it was noticed',
+  labelNames: ['route', 'stage'] as const,
+  registers: [registry],
+});
+
+export const gremlinDelayedRequests = new Counter({
+  name: 'gremlin_delayed_requests_total',
+  help: 'Requests delayed by the latency gremlin',
+  registers: [registry],
+});
+
+// GET /metrics - Prometheus text format
+export async function printMetrics(c: Context) {
+  c.header('Content-Type', registry.contentType);
+  return c.body(await registry.metrics());
+}
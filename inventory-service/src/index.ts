@@ -3,22 +3,35 @@ import { cors } from 'hono/cors';
 import { config } from './config';
 import inventory from './routes/inventory';
 import deduct from './routes/deduct';
+import restore from './routes/restore';
+import operations from './routes/operations';
 import admin from './routes/admin';
 import gremlin from './routes/gremlin';
 import health from './routes/health';
+import logLevel from './routes/log-level';
+import { registerMetrics, printMetrics } from './helpers/metrics';
+import { tracingMiddleware } from './helpers/tracing';
+import { logContextMiddleware, logger } from './helpers/logger';
 
 const app = new Hono();
 
 app.use('/*', cors());
+app.use('/*', registerMetrics);
+app.use('/*', tracingMiddleware);
+app.use('/*', logContextMiddleware);
 
 app.route('/api/inventory', inventory);
 app.route('/internal/inventory/deduct', deduct);
+app.route('/internal/inventory/restore', restore);
+app.route('/internal/inventory/operations', operations);
 app.route('/internal/inventory', admin);
 app.route('/internal/gremlin', gremlin);
+app.route('/internal/log-level', logLevel);
 app.route('/health', health);
+app.get('/metrics', printMetrics);
 
 // Start server
-console.log(`Inventory Service running on port ${config.server.port}`);
+logger.info(`Inventory Service running on port ${config.server.port}`, { port: config.server.port });
 
 export default {
   port: config.server.port,
@@ -1,10 +1,11 @@
 import { Context, Next } from 'hono';
-import { shouldDelayRequest, getRequestCounter } from '../helpers/gremlin';
+import { shouldDelayRequest, getRequestCounter, applyGremlinDelay } from '../helpers/gremlin';
+import { logger } from '../helpers/logger';
 
 export async function gremlinLatencyMiddleware(c: Context, next: Next) {
   if (shouldDelayRequest()) {
-    console.log(`[GREMLIN] Delaying request #${getRequestCounter()} by 5 seconds`);
-    await new Promise(resolve => setTimeout(resolve, 5000));
+    logger.warn('Gremlin delaying request by 5 seconds', { gremlin_request: getRequestCounter() });
+    await applyGremlinDelay();
   }
   await next();
 }
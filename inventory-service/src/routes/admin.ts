@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
-import { sql } from '../db';
+import { sql, transaction } from '../db';
+import { logger, addLogContext } from '../helpers/logger';
 
 const admin = new Hono();
 
@@ -11,12 +12,13 @@ admin.post('/adjust', async (c) => {
 
     const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
     const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, product_id });
 
     if (!product_id || adjustment === undefined || !reason) {
       return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
     }
 
-    await sql.begin(async (tx) => {
+    await transaction('adjust', async (tx) => {
       const products = await tx`
         SELECT stock_level FROM products WHERE product_id = ${product_id} FOR UPDATE
       `;
@@ -58,7 +60,7 @@ admin.post('/adjust', async (c) => {
       timestamp: new Date().toISOString(),
     });
   } catch (error: any) {
-    console.error('Error adjusting inventory:', error);
+    logger.error('Error adjusting inventory', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: error.message } }, 500);
   }
 });
@@ -87,7 +89,7 @@ admin.post('/products', async (c) => {
       created_at: products[0].created_at,
     }, 201);
   } catch (error: any) {
-    console.error('Error creating product:', error);
+    logger.error('Error creating product', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -129,7 +131,7 @@ admin.get('/audit', async (c) => {
       total: logs.length,
     });
   } catch (error: any) {
-    console.error('Error fetching audit:', error);
+    logger.error('Error fetching audit', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -1,27 +1,51 @@
-import { Hono } from 'hono';
-import { sql } from '../db';
-import { shouldDelayRequest, getRequestCounter } from '../helpers/gremlin';
+import { Hono, type Context } from 'hono';
+import { sql, transaction } from '../db';
+import { shouldDelayRequest, getRequestCounter, applyGremlinDelay } from '../helpers/gremlin';
+import { deductLockWait, deductDeadlineExceeded } from '../helpers/metrics';
+import { readDeadline, assertDeadline, limitLockWait, isLockTimeout } from '../helpers/deadline';
+import { logger, addLogContext } from '../helpers/logger';
+import {
+  requestFingerprint,
+  storedFingerprint,
+  operationItems,
+  diffItems,
+  idempotencyKeyReused,
+  type FieldDifference,
+} from '../helpers/fingerprint';
 
 const deduct = new Hono();
 
 // POST /internal/inventory/deduct - Deduct inventory (idempotent)
 deduct.post('/', async (c) => {
+  let body: any;
+  const deadline = readDeadline(c);
+
   try {
-    const body = await c.req.json();
+    body = await c.req.json();
     const { order_id, product_id, quantity } = body;
 
     const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
     const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id, product_id });
 
-    console.log(`[${requestId}] Deduct request: order=${order_id}, product=${product_id}, qty=${quantity}`);
+    logger.info('Deduct request', { quantity });
 
     // Validation
     if (!order_id || !product_id || !quantity || quantity <= 0) {
       return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
     }
 
+    const fingerprint = requestFingerprint([{ product_id, quantity }]);
+
     // Begin transaction
-    await sql.begin(async (tx) => {
+    await transaction('deduct', async (tx) => {
+      await limitLockWait(tx, deadline);
+
+      // Serialize with tombstoning of the same order
+      const endAdvisoryWait = deductLockWait.startTimer({ route: 'single', lock: 'advisory' });
+      await tx`SELECT pg_advisory_xact_lock(hashtext(${order_id}))`;
+      endAdvisoryWait();
+
       // Check idempotency - has this order already been processed?
       const existing = await tx`
         SELECT * FROM inventory_operations
@@ -29,7 +53,12 @@ deduct.post('/', async (c) => {
       `;
 
       if (existing.length > 0) {
-        console.log(`[${requestId}] Idempotent replay for order ${order_id}`);
+        // Same order_id, different request - refuse rather than replay the wrong thing
+        if (storedFingerprint(existing) !== fingerprint) {
+          throw idempotencyKeyReused(diffItems(operationItems(existing), [{ product_id, quantity }]));
+        }
+
+        logger.info('Idempotent replay');
         // Return cached result
         const op = existing[0];
         return c.json({
@@ -41,12 +70,26 @@ deduct.post('/', async (c) => {
         });
       }
 
+      // The order service already gave up on this order
+      const tombstones = await tx`
+        SELECT 1 FROM deduction_tombstones WHERE order_id = ${order_id}
+      `;
+
+      if (tombstones.length > 0) {
+        throw new Error('Deduction rejected');
+      }
+
+      // The caller has stopped waiting - don't queue for the row lock
+      assertDeadline(deadline, 'before_lock');
+
       // Check stock availability (with row lock)
+      const endRowWait = deductLockWait.startTimer({ route: 'single', lock: 'product_rows' });
       const products = await tx`
         SELECT stock_level FROM products
         WHERE product_id = ${product_id}
         FOR UPDATE
       `;
+      endRowWait();
 
       if (products.length === 0) {
         throw new Error('Product not found');
@@ -55,7 +98,7 @@ deduct.post('/', async (c) => {
       const currentStock = products[0].stock_level;
 
       if (currentStock < quantity) {
-        console.log(`[${requestId}] Insufficient stock: ${currentStock} < ${quantity}`);
+        logger.info('Insufficient stock', { current_stock: currentStock, quantity });
         throw new Error('Insufficient stock');
       }
 
@@ -71,14 +114,17 @@ deduct.post('/', async (c) => {
       await tx`
         INSERT INTO inventory_operations (
           operation_type, product_id, quantity_change, previous_stock, new_stock,
-          order_id, request_id, correlation_id, status
+          order_id, request_fingerprint, request_id, correlation_id, status
         ) VALUES (
           'deduct', ${product_id}, ${-quantity}, ${currentStock}, ${newStock},
-          ${order_id}, ${requestId}, ${correlationId}, 'success'
+          ${order_id}, ${fingerprint}, ${requestId}, ${correlationId}, 'success'
         )
       `;
 
-      console.log(`[${requestId}] Stock deducted: ${currentStock} -> ${newStock}`);
+      // Roll back rather than commit a deduction nobody is waiting for
+      assertDeadline(deadline, 'before_commit');
+
+      logger.info('Stock deducted', { previous_stock: currentStock, new_stock: newStock });
     });
 
     // Fetch the result after transaction
@@ -97,8 +143,8 @@ deduct.post('/', async (c) => {
     // This simulates network delay without affecting data integrity
     if (shouldDelayRequest()) {
       const counter = getRequestCounter();
-      console.log(`[GREMLIN] Delaying response for request #${counter} by 5 seconds (DB already committed)`);
-      await new Promise(resolve => setTimeout(resolve, 5000));
+      logger.warn('Gremlin delaying response by 5 seconds (DB already committed)', { gremlin_request: counter });
+      await applyGremlinDelay();
     }
     
     return c.json({
@@ -110,7 +156,7 @@ deduct.post('/', async (c) => {
     });
 
   } catch (error: any) {
-    console.error('Error deducting inventory:', error);
+    logger.error('Error deducting inventory', { error });
     
     if (error.message === 'Product not found') {
       return c.json({ error: { code: 'NOT_FOUND', message: 'Product not found' } }, 404);
@@ -120,6 +166,19 @@ deduct.post('/', async (c) => {
       return c.json({ error: { code: 'INSUFFICIENT_STOCK', message: 'Insufficient stock' } }, 409);
     }
 
+    if (error.message === 'Deduction rejected') {
+      return c.json({ error: { code: 'DEDUCTION_REJECTED', message: 'Order was abandoned by the order service' } }, 409);
+    }
+
+    if (error.message === 'Idempotency key reused') {
+      return idempotencyConflict(c, error.differences);
+    }
+
+    if (error.message === 'Deadline exceeded' || isLockTimeout(error)) {
+      deductDeadlineExceeded.inc({ route: 'single', stage: error.stage ?? 'lock_wait' });
+      return deadlineExceeded(c);
+    }
+
     // Check if it's a duplicate key error
     if (error.code === '23505' || error.message.includes('unique')) {
       // This is a duplicate - fetch and return existing
@@ -129,6 +188,11 @@ deduct.post('/', async (c) => {
       `;
       
       if (existing.length > 0) {
+        const received = [{ product_id: body.product_id, quantity: body.quantity }];
+        if (storedFingerprint(existing) !== requestFingerprint(received)) {
+          return idempotencyConflict(c, diffItems(operationItems(existing), received));
+        }
+
         const op = existing[0];
         return c.json({
           order_id: op.order_id,
@@ -144,4 +208,239 @@ deduct.post('/', async (c) => {
   }
 });
 
+// POST /internal/inventory/deduct/batch - Deduct every line of a cart atomically (idempotent)
+deduct.post('/batch', async (c) => {
+  let orderId: string | undefined;
+  let receivedItems: any[] | undefined;
+  const deadline = readDeadline(c);
+
+  try {
+    const body = await c.req.json();
+    const { order_id, items } = body;
+    orderId = order_id;
+    receivedItems = items;
+
+    const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
+    const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id });
+
+    logger.info('Batch deduct request', { lines: Array.isArray(items) ? items.length : 0 });
+
+    // Validation
+    if (!order_id || !Array.isArray(items) || items.length === 0) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
+    }
+
+    const seen = new Set<string>();
+    for (const item of items) {
+      if (!item || !item.product_id || !Number.isInteger(item.quantity) || item.quantity <= 0) {
+        return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
+      }
+      if (seen.has(item.product_id)) {
+        return c.json({ error: { code: 'BAD_REQUEST', message: `Duplicate product_id ${item.product_id}` } }, 400);
+      }
+      seen.add(item.product_id);
+    }
+
+    // Line numbers follow the cart; locks are taken in product_id order so that
+    // two carts sharing products can never wait on each other in a cycle
+    const lines = items.map((item: any, index: number) => ({
+      line_no: index + 1,
+      product_id: item.product_id as string,
+      quantity: item.quantity as number,
+    }));
+    const lockOrder = [...lines].sort((a, b) => (a.product_id < b.product_id ? -1 : a.product_id > b.product_id ? 1 : 0));
+    const fingerprint = requestFingerprint(lines);
+
+    await transaction('deduct_batch', async (tx) => {
+      await limitLockWait(tx, deadline);
+
+      // Serialize with tombstoning of the same order
+      const endAdvisoryWait = deductLockWait.startTimer({ route: 'batch', lock: 'advisory' });
+      await tx`SELECT pg_advisory_xact_lock(hashtext(${order_id}))`;
+      endAdvisoryWait();
+
+      // Check idempotency - has this order already been processed?
+      const existing = await tx`
+        SELECT product_id, quantity_change, request_fingerprint FROM inventory_operations
+        WHERE order_id = ${order_id} AND operation_type = 'deduct'
+        ORDER BY line_no
+      `;
+
+      if (existing.length > 0) {
+        // Same order_id, different cart - refuse rather than replay the wrong thing
+        if (storedFingerprint(existing) !== fingerprint) {
+          throw idempotencyKeyReused(diffItems(operationItems(existing), lines));
+        }
+
+        logger.info('Idempotent replay');
+        return;
+      }
+
+      // The order service already gave up on this order
+      const tombstones = await tx`
+        SELECT 1 FROM deduction_tombstones WHERE order_id = ${order_id}
+      `;
+
+      if (tombstones.length > 0) {
+        throw new Error('Deduction rejected');
+      }
+
+      // The caller has stopped waiting - don't queue for the row locks
+      assertDeadline(deadline, 'before_lock');
+
+      // Lock every product row before touching any of them
+      const endRowWait = deductLockWait.startTimer({ route: 'batch', lock: 'product_rows' });
+      const stock = new Map<string, number>();
+      for (const line of lockOrder) {
+        const products = await tx`
+          SELECT stock_level FROM products
+          WHERE product_id = ${line.product_id}
+          FOR UPDATE
+        `;
+
+        if (products.length === 0) {
+          throw Object.assign(new Error('Product not found'), { product_id: line.product_id });
+        }
+
+        stock.set(line.product_id, products[0].stock_level);
+      }
+      endRowWait();
+
+      // All-or-nothing: reject the whole cart if any line is short
+      for (const line of lines) {
+        const currentStock = stock.get(line.product_id)!;
+        if (currentStock < line.quantity) {
+          logger.info('Insufficient stock', { product_id: line.product_id, current_stock: currentStock, quantity: line.quantity });
+          throw Object.assign(new Error('Insufficient stock'), { product_id: line.product_id });
+        }
+      }
+
+      for (const line of lockOrder) {
+        const currentStock = stock.get(line.product_id)!;
+        const newStock = currentStock - line.quantity;
+
+        await tx`
+          UPDATE products
+          SET stock_level = ${newStock}, last_updated = NOW()
+          WHERE product_id = ${line.product_id}
+        `;
+
+        // Record operation (UNIQUE constraint on line 1 prevents duplicate carts)
+        await tx`
+          INSERT INTO inventory_operations (
+            operation_type, product_id, quantity_change, previous_stock, new_stock,
+            order_id, line_no, request_fingerprint, request_id, correlation_id, status
+          ) VALUES (
+            'deduct', ${line.product_id}, ${-line.quantity}, ${currentStock}, ${newStock},
+            ${order_id}, ${line.line_no}, ${fingerprint}, ${requestId}, ${correlationId}, 'success'
+          )
+        `;
+
+        logger.info('Stock deducted', { product_id: line.product_id, previous_stock: currentStock, new_stock: newStock });
+      }
+
+      // Roll back rather than commit a deduction nobody is waiting for
+      assertDeadline(deadline, 'before_commit');
+    });
+
+    const ops = await fetchBatchOperations(order_id);
+
+    if (ops.length === 0) {
+      throw new Error('Operation not found after commit');
+    }
+
+    // Apply gremlin delay AFTER database commit but BEFORE response
+    if (shouldDelayRequest()) {
+      const counter = getRequestCounter();
+      logger.warn('Gremlin delaying response by 5 seconds (DB already committed)', { gremlin_request: counter });
+      await applyGremlinDelay();
+    }
+
+    return c.json(formatBatchResult(ops));
+
+  } catch (error: any) {
+    logger.error('Error deducting inventory (batch)', { error });
+
+    if (error.message === 'Product not found') {
+      return c.json({
+        error: { code: 'NOT_FOUND', message: `Product not found: ${error.product_id}`, product_id: error.product_id },
+      }, 404);
+    }
+
+    if (error.message === 'Insufficient stock') {
+      return c.json({
+        error: { code: 'INSUFFICIENT_STOCK', message: `Insufficient stock for ${error.product_id}`, product_id: error.product_id },
+      }, 409);
+    }
+
+    if (error.message === 'Deduction rejected') {
+      return c.json({ error: { code: 'DEDUCTION_REJECTED', message: 'Order was abandoned by the order service' } }, 409);
+    }
+
+    if (error.message === 'Idempotency key reused') {
+      return idempotencyConflict(c, error.differences);
+    }
+
+    if (error.message === 'Deadline exceeded' || isLockTimeout(error)) {
+      deductDeadlineExceeded.inc({ route: 'batch', stage: error.stage ?? 'lock_wait' });
+      return deadlineExceeded(c);
+    }
+
+    // Duplicate key - a concurrent attempt for the same order won the race
+    if (orderId && (error.code === '23505' || error.message.includes('unique'))) {
+      const ops = await fetchBatchOperations(orderId);
+      if (ops.length > 0) {
+        const received = (receivedItems ?? []).map((item: any) => ({ product_id: item.product_id, quantity: item.quantity }));
+        if (storedFingerprint(ops) !== requestFingerprint(received)) {
+          return idempotencyConflict(c, diffItems(operationItems(ops), received));
+        }
+        return c.json(formatBatchResult(ops));
+      }
+    }
+
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+function idempotencyConflict(c: Context, differences: FieldDifference[]) {
+  return c.json({
+    error: {
+      code: 'IDEMPOTENCY_KEY_REUSED',
+      message: 'order_id was already used for a different request',
+      differences,
+    },
+  }, 409);
+}
+
+// Nothing was deducted, so the caller can treat the order as failed.
+// A 4xx, not a 504: the refusal is the caller's budget running out, and must not
+// count against inventory in the caller's circuit breaker.
+function deadlineExceeded(c: Context) {
+  return c.json({
+    error: { code: 'DEADLINE_EXCEEDED', message: 'Caller deadline passed before the deduction was committed' },
+  }, 408);
+}
+
+async function fetchBatchOperations(orderId: string) {
+  return sql`
+    SELECT * FROM inventory_operations
+    WHERE order_id = ${orderId} AND operation_type = 'deduct'
+    ORDER BY line_no
+  `;
+}
+
+function formatBatchResult(ops: any[]) {
+  return {
+    order_id: ops[0].order_id,
+    items: ops.map((op) => ({
+      line_no: op.line_no,
+      product_id: op.product_id,
+      quantity_deducted: Math.abs(op.quantity_change),
+      new_stock_level: op.new_stock,
+    })),
+    timestamp: ops[0].created_at,
+  };
+}
+
 export default deduct;
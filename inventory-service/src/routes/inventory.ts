@@ -1,5 +1,6 @@
 import { Hono } from 'hono';
 import { sql } from '../db';
+import { logger, addLogContext } from '../helpers/logger';
 
 const inventory = new Hono();
 
@@ -41,7 +42,7 @@ inventory.get('/', async (c) => {
       offset,
     });
   } catch (error: any) {
-    console.error('Error fetching inventory:', error);
+    logger.error('Error fetching inventory', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -50,6 +51,7 @@ inventory.get('/', async (c) => {
 inventory.get('/:product_id', async (c) => {
   try {
     const productId = c.req.param('product_id');
+    addLogContext({ product_id: productId });
 
     const products = await sql`
       SELECT product_id, name, stock_level, stock_level as available_stock, last_updated
@@ -66,7 +68,7 @@ inventory.get('/:product_id', async (c) => {
       reserved_stock: 0,
     });
   } catch (error: any) {
-    console.error('Error fetching product:', error);
+    logger.error('Error fetching product', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -114,7 +116,7 @@ inventory.post('/check', async (c) => {
       items: results,
     });
   } catch (error: any) {
-    console.error('Error checking inventory:', error);
+    logger.error('Error checking inventory', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -0,0 +1,117 @@
+import { Hono } from 'hono';
+import { sql, transaction } from '../db';
+import { logger, addLogContext } from '../helpers/logger';
+
+const operations = new Hono();
+
+type DeductionState = 'deducted' | 'not_found' | 'failed';
+
+// GET /internal/inventory/operations/:order_id - Read-only deduction lookup (never deducts)
+operations.get('/:order_id', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+    return c.json(await describeDeduction(orderId));
+  } catch (error: any) {
+    logger.error('Error looking up deduction', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /internal/inventory/operations/:order_id/tombstone - Reject any late deduct for this order
+operations.post('/:order_id/tombstone', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    const body = await c.req.json().catch(() => ({}));
+
+    const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
+    const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id: orderId });
+
+    await transaction('tombstone', async (tx) => {
+      // Same lock the deduct routes take, so a deduct and a tombstone can never both win
+      await tx`SELECT pg_advisory_xact_lock(hashtext(${orderId}))`;
+
+      const existing = await tx`
+        SELECT 1 FROM inventory_operations
+        WHERE order_id = ${orderId} AND operation_type = 'deduct'
+        LIMIT 1
+      `;
+
+      if (existing.length > 0) {
+        logger.info('Tombstone refused: already deducted');
+        return;
+      }
+
+      await tx`
+        INSERT INTO deduction_tombstones (order_id, reason, request_id, correlation_id)
+        VALUES (${orderId}, ${body.reason || null}, ${requestId}, ${correlationId})
+        ON CONFLICT (order_id) DO NOTHING
+      `;
+
+      logger.info('Tombstone recorded');
+    });
+
+    // Report the settled state - 'deducted' means the tombstone lost the race
+    return c.json(await describeDeduction(orderId));
+  } catch (error: any) {
+    logger.error('Error recording tombstone', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+async function describeDeduction(orderId: string) {
+  const ops = await sql`
+    SELECT * FROM inventory_operations
+    WHERE order_id = ${orderId} AND operation_type IN ('deduct', 'restore')
+    ORDER BY line_no
+  `;
+
+  const deductions = ops.filter((op) => op.operation_type === 'deduct');
+  const restored = ops.some((op) => op.operation_type === 'restore');
+
+  if (deductions.length > 0) {
+    const failed = deductions.find((op) => op.status === 'failed');
+    const state: DeductionState = failed ? 'failed' : 'deducted';
+
+    return {
+      order_id: orderId,
+      status: state,
+      reason: failed ? failed.error_message : null,
+      restored,
+      items: deductions.map((op) => ({
+        line_no: op.line_no,
+        product_id: op.product_id,
+        quantity_deducted: Math.abs(op.quantity_change),
+        new_stock_level: op.new_stock,
+      })),
+      timestamp: deductions[0].created_at,
+    };
+  }
+
+  const tombstones = await sql`
+    SELECT reason, created_at FROM deduction_tombstones WHERE order_id = ${orderId}
+  `;
+
+  if (tombstones.length > 0) {
+    return {
+      order_id: orderId,
+      status: 'failed' as DeductionState,
+      reason: tombstones[0].reason || 'TOMBSTONED',
+      restored: false,
+      items: [],
+      timestamp: tombstones[0].created_at,
+    };
+  }
+
+  return {
+    order_id: orderId,
+    status: 'not_found' as DeductionState,
+    reason: null,
+    restored: false,
+    items: [],
+    timestamp: null,
+  };
+}
+
+export default operations;
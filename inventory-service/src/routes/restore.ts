@@ -0,0 +1,141 @@
+import { Hono } from 'hono';
+import { sql, transaction } from '../db';
+import { logger, addLogContext } from '../helpers/logger';
+
+const restore = new Hono();
+
+// POST /internal/inventory/restore - Put back the stock deducted for an order (idempotent)
+restore.post('/', async (c) => {
+  let orderId: string | undefined;
+
+  try {
+    const body = await c.req.json();
+    const { order_id } = body;
+    orderId = order_id;
+
+    const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
+    const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id });
+
+    logger.info('Restore request');
+
+    if (!order_id) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
+    }
+
+    await transaction('restore', async (tx) => {
+      // Same lock the deduct routes take, so a restore never interleaves with a deduct retry of the order
+      await tx`SELECT pg_advisory_xact_lock(hashtext(${order_id}))`;
+
+      // Check idempotency - has this order already been restored?
+      const existing = await tx`
+        SELECT operation_id FROM inventory_operations
+        WHERE order_id = ${order_id} AND operation_type = 'restore'
+        LIMIT 1
+      `;
+
+      if (existing.length > 0) {
+        logger.info('Idempotent replay of restore');
+        return;
+      }
+
+      // Only what was actually deducted can go back; lock in product_id order like the batch deduct
+      const deductions = await tx`
+        SELECT product_id, quantity_change, line_no FROM inventory_operations
+        WHERE order_id = ${order_id} AND operation_type = 'deduct'
+        ORDER BY product_id
+      `;
+
+      if (deductions.length === 0) {
+        throw new Error('Deduction not found');
+      }
+
+      for (const deduction of deductions) {
+        const products = await tx`
+          SELECT stock_level FROM products
+          WHERE product_id = ${deduction.product_id}
+          FOR UPDATE
+        `;
+
+        if (products.length === 0) {
+          throw new Error('Product not found');
+        }
+
+        const quantity = Math.abs(deduction.quantity_change);
+        const currentStock = products[0].stock_level;
+        const newStock = currentStock + quantity;
+
+        await tx`
+          UPDATE products
+          SET stock_level = ${newStock}, last_updated = NOW()
+          WHERE product_id = ${deduction.product_id}
+        `;
+
+        // Record operation (UNIQUE constraint prevents a second restore)
+        await tx`
+          INSERT INTO inventory_operations (
+            operation_type, product_id, quantity_change, previous_stock, new_stock,
+            order_id, line_no, notes, request_id, correlation_id, status
+          ) VALUES (
+            'restore', ${deduction.product_id}, ${quantity}, ${currentStock}, ${newStock},
+            ${order_id}, ${deduction.line_no}, 'Order cancelled', ${requestId}, ${correlationId}, 'success'
+          )
+        `;
+
+        logger.info('Stock restored', { product_id: deduction.product_id, previous_stock: currentStock, new_stock: newStock });
+      }
+    });
+
+    const ops = await fetchRestoreOperations(order_id);
+
+    if (ops.length === 0) {
+      throw new Error('Operation not found after commit');
+    }
+
+    return c.json(formatRestoreResult(ops));
+
+  } catch (error: any) {
+    logger.error('Error restoring inventory', { error });
+
+    if (error.message === 'Deduction not found') {
+      return c.json({ error: { code: 'DEDUCTION_NOT_FOUND', message: 'No deduction recorded for this order' } }, 404);
+    }
+
+    if (error.message === 'Product not found') {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Product not found' } }, 404);
+    }
+
+    // Duplicate key - a concurrent restore for the same order won the race
+    if (orderId && (error.code === '23505' || error.message.includes('unique'))) {
+      const ops = await fetchRestoreOperations(orderId);
+      if (ops.length > 0) {
+        return c.json(formatRestoreResult(ops));
+      }
+    }
+
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+async function fetchRestoreOperations(orderId: string) {
+  return sql`
+    SELECT * FROM inventory_operations
+    WHERE order_id = ${orderId} AND operation_type = 'restore'
+    ORDER BY line_no
+  `;
+}
+
+function formatRestoreResult(ops: any[]) {
+  return {
+    order_id: ops[0].order_id,
+    items: ops.map((op) => ({
+      line_no: op.line_no,
+      product_id: op.product_id,
+      quantity_restored: op.quantity_change,
+      new_stock_level: op.new_stock,
+    })),
+    timestamp: ops[0].created_at,
+  };
+}
+
+export default restore;
@@ -3,11 +3,19 @@ import { cors } from 'hono/cors';
 import { readdir, writeFile, readFile, stat, mkdir } from 'fs/promises';
 import { existsSync } from 'fs';
 import { join } from 'path';
+import { prometheus } from '@hono/prometheus';
+import { Registry } from 'prom-client';
 
 const app = new Hono();
 
 app.use('/*', cors());
 
+// Prometheus metrics: request count and latency per route
+const registry = new Registry();
+registry.setDefaultLabels({ service: 'mock-backup-service' });
+const { registerMetrics } = prometheus({ registry, collectDefaultMetrics: true });
+app.use('/*', registerMetrics);
+
 const BACKUP_DIR = process.env.BACKUP_DIR || '/backups';
 const RATE_LIMIT_FILE = join(BACKUP_DIR, '.last_upload');
 
@@ -53,6 +61,12 @@ app.get('/health', (c) => {
   });
 });
 
+// Prometheus metrics
+app.get('/metrics', async (c) => {
+  c.header('Content-Type', registry.contentType);
+  return c.body(await registry.metrics());
+});
+
 // Get upload status
 app.get('/api/backup/status', async (c) => {
   const { allowed, nextAllowedAt, lastUploadAt } = await canUpload();
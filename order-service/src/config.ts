@@ -11,7 +11,42 @@ export const config = {
   },
   inventory: {
     serviceUrl: process.env.INVENTORY_SERVICE_URL || 'http://localhost:3001',
+    // Timeouts until enough latencies are known (or when adaptive timeouts are off)
     timeoutMs: parseInt(process.env.INVENTORY_TIMEOUT_MS || '3000'),
+    lookupTimeoutMs: parseInt(process.env.INVENTORY_LOOKUP_TIMEOUT_MS || '5000'),
+    // Deducts tell inventory to give up this long before our timeout, leaving time for the answer to arrive
+    deadlineMarginMs: parseInt(process.env.INVENTORY_DEADLINE_MARGIN_MS || '250'),
+    // Tombstone orders that verification finds no deduction for, so a late deduct is rejected
+    tombstoneOnMiss: process.env.INVENTORY_TOMBSTONE_ON_MISS !== 'false',
+    circuitBreaker: {
+      failureRateThreshold: parseFloat(process.env.INVENTORY_CB_FAILURE_RATE || '0.5'),
+      slowCallThresholdMs: parseInt(process.env.INVENTORY_CB_SLOW_CALL_MS || '2000'),
+      slowCallRateThreshold: parseFloat(process.env.INVENTORY_CB_SLOW_CALL_RATE || '0.8'),
+      windowSize: parseInt(process.env.INVENTORY_CB_WINDOW_SIZE || '20'),
+      minimumCalls: parseInt(process.env.INVENTORY_CB_MIN_CALLS || '10'),
+      openDurationMs: parseInt(process.env.INVENTORY_CB_OPEN_MS || '10000'),
+      halfOpenMaxCalls: parseInt(process.env.INVENTORY_CB_HALF_OPEN_CALLS || '3'),
+    },
+    latency: {
+      windowSize: parseInt(process.env.INVENTORY_LATENCY_WINDOW || '200'),
+      minSamples: parseInt(process.env.INVENTORY_LATENCY_MIN_SAMPLES || '20'),
+    },
+    adaptiveTimeout: {
+      enabled: process.env.INVENTORY_ADAPTIVE_TIMEOUT_ENABLED !== 'false',
+      // timeout = p99 of recent calls x multiplier, kept within minMs..maxMs
+      multiplier: parseFloat(process.env.INVENTORY_ADAPTIVE_TIMEOUT_MULTIPLIER || '2'),
+      minMs: parseInt(process.env.INVENTORY_TIMEOUT_MIN_MS || '1000'),
+      maxMs: parseInt(process.env.INVENTORY_TIMEOUT_MAX_MS || '5000'),
+    },
+    hedging: {
+      // Deducts and lookups only - both are safe to send twice
+      enabled: process.env.INVENTORY_HEDGING_ENABLED === 'true',
+      // The second request goes out after the p95 latency, kept within these bounds
+      minDelayMs: parseInt(process.env.INVENTORY_HEDGE_MIN_DELAY_MS || '50'),
+      maxDelayMs: parseInt(process.env.INVENTORY_HEDGE_MAX_DELAY_MS || '1000'),
+      // Share of recent calls that may be hedged, so a struggling inventory never sees double load
+      maxRate: parseFloat(process.env.INVENTORY_HEDGE_MAX_RATE || '0.2'),
+    },
   },
   redis: {
     host: process.env.REDIS_HOST || 'localhost',
@@ -20,5 +55,116 @@ export const config = {
   worker: {
     maxRetryAttempts: parseInt(process.env.WORKER_MAX_RETRY_ATTEMPTS || '5'),
     initialRetryDelayMs: parseInt(process.env.WORKER_INITIAL_RETRY_DELAY_MS || '5000'),
+    // Claimed retry events reappear if not acknowledged within the lease
+    leaseMs: parseInt(process.env.WORKER_LEASE_MS || '30000'),
+    claimBatchSize: parseInt(process.env.WORKER_CLAIM_BATCH_SIZE || '50'),
+  },
+  sweeper: {
+    intervalMs: parseInt(process.env.SWEEPER_INTERVAL_MS || '30000'),
+    // Only orders undecided for longer than this are swept
+    thresholdMs: parseInt(process.env.SWEEPER_THRESHOLD_MS || '60000'),
+    batchSize: parseInt(process.env.SWEEPER_BATCH_SIZE || '50'),
+  },
+  logging: {
+    // debug | info | warn | error; can be changed at runtime via PUT /internal/log-level
+    level: process.env.LOG_LEVEL || 'info',
+    serviceName: process.env.OTEL_SERVICE_NAME || 'order-service',
+  },
+  webhooks: {
+    pollIntervalMs: parseInt(process.env.WEBHOOK_POLL_INTERVAL_MS || '2000'),
+    // Deliveries claimed per poll; at most one per endpoint, so endpoints stay in order
+    batchSize: parseInt(process.env.WEBHOOK_BATCH_SIZE || '20'),
+    timeoutMs: parseInt(process.env.WEBHOOK_TIMEOUT_MS || '5000'),
+    maxAttempts: parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '8'),
+    // Backoff: 10s, 20s, 40s, ... capped at maxRetryDelayMs
+    initialRetryDelayMs: parseInt(process.env.WEBHOOK_INITIAL_RETRY_DELAY_MS || '10000'),
+    maxRetryDelayMs: parseInt(process.env.WEBHOOK_MAX_RETRY_DELAY_MS || '3600000'),
+    // A claimed delivery is retried after this long if the dispatcher dies mid-send
+    leaseMs: parseInt(process.env.WEBHOOK_LEASE_MS || '30000'),
+  },
+  outbox: {
+    pollIntervalMs: parseInt(process.env.OUTBOX_POLL_INTERVAL_MS || '500'),
+    batchSize: parseInt(process.env.OUTBOX_BATCH_SIZE || '100'),
+    // Dispatched rows are kept this long for inspection, then deleted
+    retentionMs: parseInt(process.env.OUTBOX_RETENTION_MS || '86400000'),
+    // Failed dispatches before an entry is parked
+    maxAttempts: parseInt(process.env.OUTBOX_MAX_ATTEMPTS || '10'),
+    // Backoff: 1s, 2s, 4s, ... capped at maxRetryDelayMs
+    initialRetryDelayMs: parseInt(process.env.OUTBOX_INITIAL_RETRY_DELAY_MS || '1000'),
+    maxRetryDelayMs: parseInt(process.env.OUTBOX_MAX_RETRY_DELAY_MS || '300000'),
+  },
+  asyncOrders: {
+    // Lets clients ask for 202 Accepted; when false every order is placed synchronously
+    enabled: process.env.ASYNC_ORDERS_ENABLED !== 'false',
+    // How long the consumer blocks on the placement stream per read
+    blockMs: parseInt(process.env.ASYNC_ORDERS_BLOCK_MS || '5000'),
+    batchSize: parseInt(process.env.ASYNC_ORDERS_BATCH_SIZE || '10'),
+    // Unacknowledged placements (consumer died, inventory unavailable) are redelivered after this
+    claimIdleMs: parseInt(process.env.ASYNC_ORDERS_CLAIM_IDLE_MS || '30000'),
+    // The sweeper queues orders pending longer than this again, in case Redis lost their placement
+    stalePendingMs: parseInt(process.env.ASYNC_ORDERS_STALE_PENDING_MS || '300000'),
+  },
+  bulkOrders: {
+    // Rows of one import placed against inventory at the same time
+    concurrency: parseInt(process.env.BULK_ORDER_CONCURRENCY || '8'),
+    // Larger imports are refused with 413 before any row is placed
+    maxOrders: parseInt(process.env.BULK_ORDER_MAX_ORDERS || '1000'),
+    maxBytes: parseInt(process.env.BULK_ORDER_MAX_BYTES || '5242880'), // 5 MB
+  },
+  orderExport: {
+    // Rows fetched from the server-side cursor at a time
+    batchSize: parseInt(process.env.ORDER_EXPORT_BATCH_SIZE || '500'),
+    // Deduction lookups in flight across all exports of a process when include=deductions
+    deductionConcurrency: parseInt(process.env.ORDER_EXPORT_DEDUCTION_CONCURRENCY || '8'),
+    // Exports streaming at once per process - the size of their dedicated connection pool
+    maxConcurrent: parseInt(process.env.ORDER_EXPORT_MAX_CONCURRENT || '2'),
+    // Longest one cursor fetch may run in Postgres
+    statementTimeoutMs: parseInt(process.env.ORDER_EXPORT_STATEMENT_TIMEOUT_MS || '30000'),
+    // An export whose client reads nothing for this long is abandoned and its connection freed
+    idleTimeoutMs: parseInt(process.env.ORDER_EXPORT_IDLE_TIMEOUT_MS || '60000'),
+  },
+  rateLimit: {
+    enabled: process.env.RATE_LIMIT_ENABLED !== 'false',
+    // "<api key>:<tier>,..." - requests without a listed X-API-Key are limited per client IP as "anonymous"
+    apiKeys: process.env.RATE_LIMIT_API_KEYS || '',
+    // Take the client IP from X-Forwarded-For; only safe behind a proxy that sets it
+    trustProxy: process.env.RATE_LIMIT_TRUST_PROXY === 'true',
+    // Token buckets per route policy: "<tier>=<burst>/<refill per second>,...". Tiers not listed are not limited.
+    policies: {
+      order_create: process.env.RATE_LIMIT_ORDER_CREATE || 'anonymous=10/2,standard=30/10,premium=100/50',
+      // Per import, not per row - rows are bounded by bulkOrders.maxOrders
+      order_bulk: process.env.RATE_LIMIT_ORDER_BULK || 'anonymous=1/0.01,standard=5/0.05,premium=20/0.2',
+      api: process.env.RATE_LIMIT_API || 'anonymous=60/20,standard=120/50,premium=300/150',
+      // Internal routes are exempt unless a policy is configured
+      internal: process.env.RATE_LIMIT_INTERNAL || '',
+    },
+  },
+  tracing: {
+    enabled: process.env.TRACING_ENABLED !== 'false',
+    serviceName: process.env.OTEL_SERVICE_NAME || 'order-service',
+    // OTLP/HTTP collector base URL; spans are POSTed to /v1/traces
+    otlpEndpoint: process.env.OTEL_EXPORTER_OTLP_ENDPOINT || 'http://localhost:4318',
+    // Spans the collector could not take are appended here as JSON lines; unset, they are dropped
+    fallbackFile: process.env.TRACING_FALLBACK_FILE || null,
+  },
+  sse: {
+    // Keepalive comment interval for per-order status streams
+    heartbeatMs: parseInt(process.env.SSE_HEARTBEAT_MS || '15000'),
+    // Per-order streams close after this long without an update
+    timeoutMs: parseInt(process.env.SSE_TIMEOUT_MS || '60000'),
+  },
+  eventStream: {
+    // Approximate cap on the order:events stream; older entries can no longer be replayed
+    maxLength: parseInt(process.env.ORDER_EVENT_STREAM_MAXLEN || '100000'),
+    // How long the shared firehose reader blocks on each XREAD
+    blockMs: parseInt(process.env.ORDER_EVENT_STREAM_BLOCK_MS || '15000'),
+    readBatchSize: parseInt(process.env.ORDER_EVENT_STREAM_READ_BATCH || '100'),
+  },
+  stats: {
+    aggregationIntervalMs: parseInt(process.env.STATS_AGGREGATION_INTERVAL_MS || '60000'),
+    // Minute buckets recomputed on every run, so late samples are still counted
+    lookbackMinutes: parseInt(process.env.STATS_AGGREGATION_LOOKBACK_MINUTES || '5'),
+    // Raw per-request samples older than this are deleted (order_stats is kept)
+    rawRetentionHours: parseInt(process.env.STATS_RAW_RETENTION_HOURS || '168'),
   },
 };
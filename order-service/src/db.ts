@@ -2,3 +2,11 @@ import postgres from 'postgres';
 import { config } from './config';
 
 export const sql = postgres(config.db);
+
+// Exports hold a connection for as long as their client reads, so they get a pool of their own
+// and can never take the connections order placement needs
+export const exportSql = postgres({
+  ...config.db,
+  max: config.orderExport.maxConcurrent,
+  connection: { statement_timeout: config.orderExport.statementTimeoutMs },
+});
@@ -0,0 +1,136 @@
+import { describe, test, expect } from 'bun:test';
+import { bulkFormat, parseBulkOrders, type BulkRow } from './bulk-orders';
+
+function parse(text: string, format: 'csv' | 'ndjson'): BulkRow[] {
+  const rows = parseBulkOrders(text, format);
+  if ('error' in rows) throw new Error(rows.error);
+  return rows;
+}
+
+describe('bulkFormat', () => {
+  test('recognises CSV and the NDJSON media types, ignoring parameters and case', () => {
+    expect(bulkFormat('text/csv; charset=utf-8')).toBe('csv');
+    expect(bulkFormat('application/x-ndjson')).toBe('ndjson');
+    expect(bulkFormat('Application/JSONL')).toBe('ndjson');
+  });
+
+  test('rejects anything else', () => {
+    expect(bulkFormat('application/json')).toBeNull();
+    expect(bulkFormat(undefined)).toBeNull();
+  });
+});
+
+describe('parseBulkOrders (NDJSON)', () => {
+  test('reads one order per line in the POST /api/orders body format', () => {
+    const rows = parse([
+      '{"order_id":"a1","product_id":"PROD-001","quantity":2}',
+      '',
+      '{"order_id":"a2","user_id":"u1","items":[{"product_id":"PROD-002","quantity":1},{"product_id":"PROD-003","quantity":4}]}',
+    ].join('\n'), 'ndjson');
+
+    expect(rows).toEqual([
+      { line: 1, order_id: 'a1', user_id: null, items: [{ product_id: 'PROD-001', quantity: 2 }] },
+      {
+        line: 3,
+        order_id: 'a2',
+        user_id: 'u1',
+        items: [{ product_id: 'PROD-002', quantity: 1 }, { product_id: 'PROD-003', quantity: 4 }],
+      },
+    ]);
+  });
+
+  test('reports bad lines by line number instead of dropping them', () => {
+    const rows = parse([
+      'not json',
+      '{"product_id":"PROD-001","quantity":1}',
+      '{"order_id":"b3","product_id":"PROD-001","quantity":0}',
+      '{"order_id":"b4","user_id":"","product_id":"PROD-001","quantity":1}',
+    ].join('\n'), 'ndjson');
+
+    expect(rows.map((row) => [row.line, row.order_id, !!row.error, row.items])).toEqual([
+      [1, null, true, undefined],
+      [2, null, true, undefined],
+      [3, 'b3', true, undefined],
+      [4, 'b4', true, undefined],
+    ]);
+    expect(rows[0].error).toBe('Line is not valid JSON');
+  });
+
+  test('marks every repeat of an order_id after the first', () => {
+    const rows = parse([
+      '{"order_id":"c1","product_id":"PROD-001","quantity":1}',
+      '{"order_id":"c1","product_id":"PROD-002","quantity":1}',
+    ].join('\n'), 'ndjson');
+
+    expect(rows[0].error).toBeUndefined();
+    expect(rows[1].error).toBe('order_id appears more than once in this import');
+    expect(rows[1].items).toBeUndefined();
+  });
+});
+
+describe('parseBulkOrders (CSV)', () => {
+  test('groups lines sharing an order_id into one order, in file order', () => {
+    const rows = parse([
+      'order_id,product_id,quantity',
+      'd1,PROD-001,2',
+      'd2,PROD-003,1',
+      'd1,PROD-002,5',
+    ].join('\r\n'), 'csv');
+
+    expect(rows).toEqual([
+      { line: 2, order_id: 'd1', user_id: null, items: [{ product_id: 'PROD-001', quantity: 2 }, { product_id: 'PROD-002', quantity: 5 }] },
+      { line: 3, order_id: 'd2', user_id: null, items: [{ product_id: 'PROD-003', quantity: 1 }] },
+    ]);
+  });
+
+  test('matches header names in any order and case, and ignores unknown columns', () => {
+    const rows = parse('Quantity,Note,Product_ID,Order_ID\n3,"gift, wrapped",PROD-001,e1', 'csv');
+    expect(rows).toEqual([{ line: 2, order_id: 'e1', user_id: null, items: [{ product_id: 'PROD-001', quantity: 3 }] }]);
+  });
+
+  test('unquotes fields and unescapes doubled quotes', () => {
+    const rows = parse('order_id,product_id,quantity\n"f""1","PROD,001",1', 'csv');
+    expect(rows[0].order_id).toBe('f"1');
+    expect(rows[0].items).toEqual([{ product_id: 'PROD,001', quantity: 1 }]);
+  });
+
+  test('takes the user from an optional user_id column, which must agree across lines', () => {
+    const rows = parse([
+      'order_id,user_id,product_id,quantity',
+      'g1,u1,PROD-001,1',
+      'g1,,PROD-002,1',
+      'g2,u1,PROD-001,1',
+      'g2,u2,PROD-002,1',
+    ].join('\n'), 'csv');
+
+    expect(rows[0].user_id).toBe('u1');
+    expect(rows[0].error).toBeUndefined();
+    expect(rows[1].error).toBe('Lines of one order name different user_ids');
+  });
+
+  test('reports rows that cannot be placed', () => {
+    const rows = parse([
+      'order_id,product_id,quantity',
+      'h1,PROD-001,two',
+      ',PROD-001,1',
+      '"h3,PROD-001,1',
+    ].join('\n'), 'csv');
+
+    expect(rows.map((row) => [row.line, row.order_id, !!row.error])).toEqual([
+      [2, 'h1', true],
+      [3, null, true],
+      [4, null, true],
+    ]);
+    expect(rows[2].error).toBe('Unterminated quoted field');
+  });
+
+  test('rejects the whole file when the header lacks a required column', () => {
+    expect(parseBulkOrders('order_id,quantity\nh1,1', 'csv')).toEqual({
+      error: 'CSV header must name the columns order_id, product_id, quantity (missing product_id)',
+    });
+  });
+
+  test('an empty file has no orders', () => {
+    expect(parse('\n\n', 'csv')).toEqual([]);
+  });
+});
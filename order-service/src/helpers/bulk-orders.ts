@@ -0,0 +1,200 @@
+import { parseOrderItems, parseUserId, type OrderItem } from './order-helpers';
+
+export type BulkFormat = 'ndjson' | 'csv';
+
+export interface BulkRow {
+  line: number; // 1-based; for CSV, the first line of the order
+  order_id: string | null;
+  user_id: string | null;
+  items?: OrderItem[];
+  error?: string; // Why the row cannot be placed - reported, never dropped
+}
+
+const NDJSON_CONTENT_TYPES = ['application/x-ndjson', 'application/ndjson', 'application/jsonl'];
+
+// Columns a CSV import must have; user_id is optional and others are ignored
+const CSV_COLUMNS = ['order_id', 'product_id', 'quantity'];
+
+export function bulkFormat(contentType: string | undefined): BulkFormat | null {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  if (type === 'text/csv') return 'csv';
+  if (NDJSON_CONTENT_TYPES.includes(type)) return 'ndjson';
+  return null;
+}
+
+/**
+ * Split an import into orders, validated the way POST /api/orders validates a body.
+ * NDJSON: one order per line, in the POST /api/orders body format.
+ * CSV: a header row, then one cart line per row; rows sharing an order_id form one order.
+ * Returns an error only if the file as a whole cannot be read.
+ */
+export function parseBulkOrders(text: string, format: BulkFormat): BulkRow[] | { error: string } {
+  const rows = format === 'csv' ? parseCsv(text) : parseNdjson(text);
+  if ('error' in rows) {
+    return rows;
+  }
+
+  // Placing the same order_id twice at once would race with itself
+  const seen = new Set<string>();
+  for (const row of rows) {
+    if (row.error || row.order_id === null) continue;
+
+    if (seen.has(row.order_id)) {
+      row.error = 'order_id appears more than once in this import';
+      delete row.items;
+    }
+    seen.add(row.order_id);
+  }
+
+  return rows;
+}
+
+function parseNdjson(text: string): BulkRow[] {
+  const rows: BulkRow[] = [];
+
+  text.split('\n').forEach((content, index) => {
+    const line = index + 1;
+    if (content.trim().length === 0) return;
+
+    let body: any;
+    try {
+      body = JSON.parse(content);
+    } catch {
+      rows.push({ line, order_id: null, user_id: null, error: 'Line is not valid JSON' });
+      return;
+    }
+
+    const orderId = body?.order_id;
+    if (!isOrderId(orderId)) {
+      rows.push({ line, order_id: null, user_id: null, error: 'order_id is required (client must provide UUID)' });
+      return;
+    }
+
+    const user = parseUserId(body.user_id);
+    if ('error' in user) {
+      rows.push({ line, order_id: orderId, user_id: null, error: user.error });
+      return;
+    }
+
+    const parsed = parseOrderItems(body);
+    rows.push('error' in parsed
+      ? { line, order_id: orderId, user_id: user.user_id, error: parsed.error }
+      : { line, order_id: orderId, user_id: user.user_id, items: parsed.items });
+  });
+
+  return rows;
+}
+
+function parseCsv(text: string): BulkRow[] | { error: string } {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex((content) => content.trim().length > 0);
+  if (headerIndex === -1) {
+    return [];
+  }
+
+  const header = splitCsvLine(lines[headerIndex])?.map((name) => name.trim().toLowerCase()) ?? [];
+  const missing = CSV_COLUMNS.filter((name) => !header.includes(name));
+  if (missing.length > 0) {
+    return { error: `CSV header must name the columns ${CSV_COLUMNS.join(', ')} (missing ${missing.join(', ')})` };
+  }
+
+  const column = (fields: string[], name: string) => (fields[header.indexOf(name)] ?? '').trim();
+
+  const rows: BulkRow[] = [];
+  const orders = new Map<string, {
+    row: BulkRow;
+    lines: Array<{ product_id: string; quantity: unknown }>;
+    users: Set<string>; // user_id given on any of its lines
+  }>();
+
+  for (let index = headerIndex + 1; index < lines.length; index++) {
+    const line = index + 1;
+    if (lines[index].trim().length === 0) continue;
+
+    const fields = splitCsvLine(lines[index]);
+    if (fields === null) {
+      rows.push({ line, order_id: null, user_id: null, error: 'Unterminated quoted field' });
+      continue;
+    }
+
+    const orderId = column(fields, 'order_id');
+    if (!isOrderId(orderId)) {
+      rows.push({ line, order_id: null, user_id: null, error: 'order_id is required (client must provide UUID)' });
+      continue;
+    }
+
+    let order = orders.get(orderId);
+    if (!order) {
+      order = { row: { line, order_id: orderId, user_id: null }, lines: [], users: new Set() };
+      orders.set(orderId, order);
+      rows.push(order.row);
+    }
+
+    const userId = header.includes('user_id') ? column(fields, 'user_id') : '';
+    if (userId) order.users.add(userId);
+
+    // Left as text when it is not a whole number, so validation reports it
+    const quantity = column(fields, 'quantity');
+    order.lines.push({ product_id: column(fields, 'product_id'), quantity: /^\d+$/.test(quantity) ? parseInt(quantity) : quantity });
+  }
+
+  for (const { row, lines: orderLines, users } of orders.values()) {
+    const user = parseUserId(users.size === 1 ? [...users][0] : undefined);
+    const parsed = parseOrderItems({ items: orderLines });
+
+    if (users.size > 1) {
+      row.error = 'Lines of one order name different user_ids';
+    } else if ('error' in user) {
+      row.error = user.error;
+    } else if ('error' in parsed) {
+      row.user_id = user.user_id;
+      row.error = parsed.error;
+    } else {
+      row.user_id = user.user_id;
+      row.items = parsed.items;
+    }
+  }
+
+  return rows;
+}
+
+// Fields of one CSV line. A field may be wrapped in double quotes, with "" for a literal quote.
+// null if a quote is left open (fields spanning lines are not supported).
+function splitCsvLine(content: string): string[] | null {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (quoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (quoted) {
+    return null;
+  }
+
+  fields.push(field);
+  return fields;
+}
+
+function isOrderId(value: unknown): value is string {
+  return typeof value === 'string' && value.trim().length > 0;
+}
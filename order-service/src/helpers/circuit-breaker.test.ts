@@ -0,0 +1,127 @@
+import { describe, test, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
+import { createCircuitBreaker, type CircuitBreakerOptions } from './circuit-breaker';
+import { setLogLevel } from './logger';
+
+const OPTIONS: CircuitBreakerOptions = {
+  failureRateThreshold: 0.5,
+  slowCallThresholdMs: 1000,
+  slowCallRateThreshold: 0.8,
+  windowSize: 10,
+  minimumCalls: 4,
+  openDurationMs: 5000,
+  halfOpenMaxCalls: 2,
+};
+
+const START = new Date('2026-01-01T00:00:00.000Z');
+
+function call(breaker: ReturnType<typeof createCircuitBreaker>, success: boolean, durationMs = 10): boolean {
+  if (!breaker.allowRequest()) return false;
+  breaker.recordResult(success, durationMs);
+  return true;
+}
+
+function openBreaker() {
+  const breaker = createCircuitBreaker('test', OPTIONS);
+  for (let i = 0; i < OPTIONS.minimumCalls; i++) call(breaker, false);
+  expect(breaker.getSnapshot().state).toBe('open');
+  return breaker;
+}
+
+describe('createCircuitBreaker', () => {
+  beforeEach(() => {
+    setSystemTime(START);
+    setLogLevel('error');
+  });
+
+  afterEach(() => {
+    setSystemTime();
+  });
+
+  test('stays closed until the window holds minimumCalls', () => {
+    const breaker = createCircuitBreaker('test', OPTIONS);
+    for (let i = 0; i < OPTIONS.minimumCalls - 1; i++) call(breaker, false);
+
+    const snapshot = breaker.getSnapshot();
+    expect(snapshot.state).toBe('closed');
+    expect(snapshot.failed_calls).toBe(OPTIONS.minimumCalls - 1);
+  });
+
+  test('opens once the failure rate reaches the threshold', () => {
+    const breaker = createCircuitBreaker('test', OPTIONS);
+    call(breaker, true);
+    call(breaker, true);
+    call(breaker, false);
+    expect(breaker.getSnapshot().state).toBe('closed');
+
+    call(breaker, false);
+    expect(breaker.getSnapshot().state).toBe('open');
+  });
+
+  test('opens once the slow-call rate reaches the threshold, even if every call succeeded', () => {
+    const breaker = createCircuitBreaker('test', OPTIONS);
+    for (let i = 0; i < 4; i++) call(breaker, true, OPTIONS.slowCallThresholdMs);
+    expect(breaker.getSnapshot().state).toBe('open');
+  });
+
+  test('only the most recent windowSize calls count', () => {
+    const breaker = createCircuitBreaker('test', OPTIONS);
+    for (let i = 0; i < 3; i++) call(breaker, true);
+    call(breaker, false);
+    expect(breaker.getSnapshot().failed_calls).toBe(1);
+
+    for (let i = 0; i < OPTIONS.windowSize; i++) call(breaker, true);
+
+    const snapshot = breaker.getSnapshot();
+    expect(snapshot.state).toBe('closed');
+    expect(snapshot.calls_in_window).toBe(OPTIONS.windowSize);
+    expect(snapshot.failed_calls).toBe(0);
+  });
+
+  test('rejects calls while open and says when it will retry', () => {
+    const breaker = openBreaker();
+
+    expect(breaker.allowRequest()).toBe(false);
+    expect(breaker.allowRequest()).toBe(false);
+
+    const snapshot = breaker.getSnapshot();
+    expect(snapshot.rejected_calls).toBe(2);
+    expect(snapshot.retry_at).toBe(new Date(START.getTime() + OPTIONS.openDurationMs).toISOString());
+  });
+
+  test('goes half open after openDurationMs and admits only halfOpenMaxCalls trial calls', () => {
+    const breaker = openBreaker();
+    setSystemTime(new Date(START.getTime() + OPTIONS.openDurationMs));
+
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.getSnapshot().state).toBe('half_open');
+    expect(breaker.allowRequest()).toBe(true);
+    expect(breaker.allowRequest()).toBe(false);
+  });
+
+  test('closes once every trial call succeeds', () => {
+    const breaker = openBreaker();
+    setSystemTime(new Date(START.getTime() + OPTIONS.openDurationMs));
+
+    call(breaker, true);
+    expect(breaker.getSnapshot().state).toBe('half_open');
+    call(breaker, true);
+
+    const snapshot = breaker.getSnapshot();
+    expect(snapshot.state).toBe('closed');
+    expect(snapshot.calls_in_window).toBe(0);
+    expect(snapshot.retry_at).toBeNull();
+  });
+
+  test('reopens on a failed or slow trial call', () => {
+    const failed = openBreaker();
+    setSystemTime(new Date(START.getTime() + OPTIONS.openDurationMs));
+    call(failed, false);
+    expect(failed.getSnapshot().state).toBe('open');
+
+    const slow = openBreaker();
+    setSystemTime(new Date(START.getTime() + 2 * OPTIONS.openDurationMs));
+    expect(call(slow, true, OPTIONS.slowCallThresholdMs)).toBe(true);
+    expect(slow.getSnapshot().state).toBe('open');
+    expect(slow.allowRequest()).toBe(false);
+  });
+});
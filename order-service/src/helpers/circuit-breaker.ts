@@ -0,0 +1,140 @@
+import { logger } from './logger';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureRateThreshold: number; // 0..1 share of failed calls that opens the circuit
+  slowCallThresholdMs: number; // Calls slower than this count as slow
+  slowCallRateThreshold: number; // 0..1 share of slow calls that opens the circuit
+  windowSize: number; // Number of most recent calls considered
+  minimumCalls: number; // Calls required in the window before rates are evaluated
+  openDurationMs: number; // How long to fail fast before probing again
+  halfOpenMaxCalls: number; // Trial calls allowed while half-open
+}
+
+export interface CircuitBreakerSnapshot {
+  state: CircuitState;
+  failure_rate: number;
+  slow_call_rate: number;
+  calls_in_window: number;
+  failed_calls: number;
+  slow_calls: number;
+  rejected_calls: number;
+  total_calls: number;
+  last_transition_at: string;
+  retry_at: string | null;
+}
+
+export interface CircuitBreaker {
+  allowRequest(): boolean;
+  recordResult(success: boolean, durationMs: number): void;
+  getSnapshot(): CircuitBreakerSnapshot;
+}
+
+interface CallOutcome {
+  failed: boolean;
+  slow: boolean;
+}
+
+/**
+ * Count-based circuit breaker.
+ * closed -> open when the failure or slow-call rate crosses its threshold,
+ * open -> half_open after openDurationMs, half_open -> closed once every
+ * trial call succeeds (or back to open on the first bad one).
+ */
+export function createCircuitBreaker(name: string, options: CircuitBreakerOptions): CircuitBreaker {
+  let state: CircuitState = 'closed';
+  let window: CallOutcome[] = [];
+  let lastTransitionAt = Date.now();
+  let halfOpenInFlight = 0;
+  let halfOpenSucceeded = 0;
+  let rejectedCalls = 0;
+  let totalCalls = 0;
+
+  function transition(next: CircuitState): void {
+    if (state === next) return;
+    logger.warn('Circuit breaker state changed', { circuit: name, from_state: state, to_state: next });
+    state = next;
+    lastTransitionAt = Date.now();
+    window = [];
+    halfOpenInFlight = 0;
+    halfOpenSucceeded = 0;
+  }
+
+  function rates() {
+    const failed = window.filter((call) => call.failed).length;
+    const slow = window.filter((call) => call.slow).length;
+    const size = window.length || 1;
+    return { failed, slow, failureRate: failed / size, slowRate: slow / size };
+  }
+
+  function allowRequest(): boolean {
+    if (state === 'open') {
+      if (Date.now() - lastTransitionAt < options.openDurationMs) {
+        rejectedCalls++;
+        return false;
+      }
+      transition('half_open');
+    }
+
+    if (state === 'half_open') {
+      if (halfOpenInFlight >= options.halfOpenMaxCalls) {
+        rejectedCalls++;
+        return false;
+      }
+      halfOpenInFlight++;
+    }
+
+    totalCalls++;
+    return true;
+  }
+
+  function recordResult(success: boolean, durationMs: number): void {
+    const slow = durationMs >= options.slowCallThresholdMs;
+
+    if (state === 'half_open') {
+      // Any bad trial call sends us straight back to fail-fast
+      if (!success || slow) {
+        transition('open');
+        return;
+      }
+      halfOpenSucceeded++;
+      if (halfOpenSucceeded >= options.halfOpenMaxCalls) {
+        transition('closed');
+      }
+      return;
+    }
+
+    if (state !== 'closed') return;
+
+    window.push({ failed: !success, slow });
+    if (window.length > options.windowSize) {
+      window.shift();
+    }
+
+    if (window.length < options.minimumCalls) return;
+
+    const { failureRate, slowRate } = rates();
+    if (failureRate >= options.failureRateThreshold || slowRate >= options.slowCallRateThreshold) {
+      transition('open');
+    }
+  }
+
+  function getSnapshot(): CircuitBreakerSnapshot {
+    const { failed, slow, failureRate, slowRate } = rates();
+    return {
+      state,
+      failure_rate: Number(failureRate.toFixed(3)),
+      slow_call_rate: Number(slowRate.toFixed(3)),
+      calls_in_window: window.length,
+      failed_calls: failed,
+      slow_calls: slow,
+      rejected_calls: rejectedCalls,
+      total_calls: totalCalls,
+      last_transition_at: new Date(lastTransitionAt).toISOString(),
+      retry_at: state === 'open' ? new Date(lastTransitionAt + options.openDurationMs).toISOString() : null,
+    };
+  }
+
+  return { allowRequest, recordResult, getSnapshot };
+}
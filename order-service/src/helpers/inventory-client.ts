@@ -1,47 +1,277 @@
 import { config } from '../config';
+import { createCircuitBreaker, type CircuitBreaker, type CircuitBreakerSnapshot } from './circuit-breaker';
+import { createLatencyTracker, type LatencyTracker, type LatencySnapshot } from './latency-tracker';
+import type { OrderItem } from './order-helpers';
+import { inventoryCalls, inventoryHedges } from './metrics';
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { withSpan, traceHeaders } from './tracing';
+
+const inventoryBreaker = createCircuitBreaker('inventory', config.inventory.circuitBreaker);
+// Lookups for exports trip their own circuit, so a long extract cannot fail-fast live orders
+const exportLookupBreaker = createCircuitBreaker('inventory_export', config.inventory.circuitBreaker);
+
+export type InventoryOperation = 'deduct' | 'restore' | 'lookup' | 'tombstone' | 'check';
+
+const latencyTrackers: Record<InventoryOperation, LatencyTracker> = {
+  deduct: createOperationTracker(config.inventory.timeoutMs, true),
+  restore: createOperationTracker(config.inventory.timeoutMs, false),
+  lookup: createOperationTracker(config.inventory.lookupTimeoutMs, true),
+  tombstone: createOperationTracker(config.inventory.lookupTimeoutMs, false),
+  check: createOperationTracker(config.inventory.lookupTimeoutMs, true),
+};
+
+// Abort reason for the attempt that lost a hedged race - says nothing about inventory health
+const HEDGE_LOST = Object.assign(new Error('Hedged request lost the race'), { name: 'HedgeLostError' });
 
 interface InventoryDeductRequest {
   order_id: string;
-  product_id: string;
-  quantity: number;
+  items: OrderItem[];
 }
 
-interface InventoryDeductResponse {
-  order_id: string;
+interface InventoryDeductLine {
+  line_no: number;
   product_id: string;
   quantity_deducted: number;
   new_stock_level: number;
+}
+
+interface InventoryDeductResponse {
+  order_id: string;
+  items: InventoryDeductLine[];
+  timestamp: string;
+}
+
+interface InventoryRestoreResponse {
+  order_id: string;
+  items: Array<{ line_no: number; product_id: string; quantity_restored: number; new_stock_level: number }>;
   timestamp: string;
 }
 
 interface InventoryResult {
   success: boolean;
-  data?: InventoryDeductResponse;
+  data?: InventoryDeductResponse | DeductionLookupResponse | InventoryRestoreResponse | InventoryAvailabilityResponse;
   error?: string | any;
+  transient?: boolean;
+}
+
+/**
+ * fetch() guarded by the inventory circuit breaker.
+ * Timeouts, network errors and 5xx responses count as failures; while the
+ * circuit is open the call is rejected immediately with INVENTORY_UNAVAILABLE.
+ * Each call is a client span and carries its traceparent to the inventory service.
+ */
+async function inventoryFetch(
+  operation: string,
+  url: string,
+  init: RequestInit,
+  breaker: CircuitBreaker = inventoryBreaker
+): Promise<Response> {
+  return withSpan(`inventory.${operation}`, { 'inventory.operation': operation, 'url.full': url }, async (span) => {
+    const response = await guardedFetch(operation, url, {
+      ...init,
+      headers: { ...(init.headers as Record<string, string>), ...traceHeaders() },
+    }, breaker);
+
+    span.setAttribute('http.response.status_code', response.status);
+    if (response.status >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    return response;
+  }, { kind: SpanKind.CLIENT });
+}
+
+async function guardedFetch(operation: string, url: string, init: RequestInit, breaker: CircuitBreaker): Promise<Response> {
+  if (!breaker.allowRequest()) {
+    inventoryCalls.inc({ operation, outcome: 'circuit_open' });
+    const error = new Error('INVENTORY_UNAVAILABLE');
+    error.name = 'CircuitOpenError';
+    throw error;
+  }
+
+  const startedAt = Date.now();
+  try {
+    const response = await fetch(url, init);
+    breaker.recordResult(response.status < 500, Date.now() - startedAt);
+    inventoryCalls.inc({ operation, outcome: response.status < 500 ? 'success' : 'error' });
+    return response;
+  } catch (error: any) {
+    if (init.signal?.reason === HEDGE_LOST) {
+      inventoryCalls.inc({ operation, outcome: 'cancelled' });
+      throw error;
+    }
+    breaker.recordResult(false, Date.now() - startedAt);
+    const timedOut = error.name === 'AbortError' || error.name === 'TimeoutError';
+    inventoryCalls.inc({ operation, outcome: timedOut ? 'timeout' : 'error' });
+    throw error;
+  }
+}
+
+export function getInventoryCircuitState(): CircuitBreakerSnapshot {
+  return inventoryBreaker.getSnapshot();
+}
+
+/**
+ * Current timeout, hedge delay and latency percentiles of each operation
+ */
+export function getInventoryLatencyStats(): Record<InventoryOperation, LatencySnapshot> {
+  return {
+    deduct: latencyTrackers.deduct.getSnapshot(),
+    restore: latencyTrackers.restore.getSnapshot(),
+    lookup: latencyTrackers.lookup.getSnapshot(),
+    tombstone: latencyTrackers.tombstone.getSnapshot(),
+    check: latencyTrackers.check.getSnapshot(),
+  };
+}
+
+function createOperationTracker(defaultTimeoutMs: number, hedging: boolean): LatencyTracker {
+  return createLatencyTracker({
+    windowSize: config.inventory.latency.windowSize,
+    minSamples: config.inventory.latency.minSamples,
+    defaultTimeoutMs,
+    adaptive: config.inventory.adaptiveTimeout.enabled,
+    timeoutMultiplier: config.inventory.adaptiveTimeout.multiplier,
+    minTimeoutMs: config.inventory.adaptiveTimeout.minMs,
+    maxTimeoutMs: config.inventory.adaptiveTimeout.maxMs,
+    hedging: hedging && config.inventory.hedging.enabled,
+    minHedgeDelayMs: config.inventory.hedging.minDelayMs,
+    maxHedgeDelayMs: config.inventory.hedging.maxDelayMs,
+    maxHedgeRate: config.inventory.hedging.maxRate,
+  });
+}
+
+interface AttemptResult {
+  hedged: boolean;
+  response?: Response;
+  error?: any;
+  durationMs: number;
+}
+
+/**
+ * inventoryFetch under a timeout derived from the operation's recent latencies.
+ * With `hedge`, an identical second request goes out if the first has not answered
+ * after the hedge delay. A 2xx from either attempt wins and the other is cancelled.
+ * Anything else waits for both to settle - the other attempt may still succeed, and
+ * a deduct must never be reported failed while it could still commit.
+ * With `deadline`, each attempt carries X-Deadline-Ms for the time it has left.
+ * Rejects with an AbortError once the timeout passes.
+ */
+async function timedInventoryFetch(
+  operation: InventoryOperation,
+  url: string,
+  init: RequestInit & { headers: Record<string, string> },
+  options: { hedge?: boolean; deadline?: boolean } = {}
+): Promise<Response> {
+  const tracker = latencyTrackers[operation];
+  const timeoutMs = tracker.timeoutMs();
+  const deadlineAt = Date.now() + timeoutMs;
+
+  const timeout = new AbortController();
+  const timeoutId = setTimeout(() => timeout.abort(), timeoutMs);
+  const inFlight = new Map<Promise<AttemptResult>, AbortController>();
+
+  const launch = (hedged: boolean) => {
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    const headers = { ...init.headers };
+    if (options.deadline) {
+      headers['X-Deadline-Ms'] = String(Math.max(0, deadlineAt - startedAt - config.inventory.deadlineMarginMs));
+    }
+
+    const attempt = inventoryFetch(operation, url, {
+      ...init,
+      headers,
+      signal: AbortSignal.any([timeout.signal, controller.signal]),
+    }).then(
+      (response): AttemptResult => ({ hedged, response, durationMs: Date.now() - startedAt }),
+      (error): AttemptResult => ({ hedged, error, durationMs: Date.now() - startedAt })
+    );
+    inFlight.set(attempt, controller);
+  };
+
+  const hedgeDelayMs = options.hedge ? tracker.hedgeDelayMs() : null;
+  let hedgeId: ReturnType<typeof setTimeout> | undefined;
+  let hedgeDue = hedgeDelayMs !== null && hedgeDelayMs < timeoutMs
+    ? new Promise<null>((resolve) => { hedgeId = setTimeout(() => resolve(null), hedgeDelayMs); })
+    : null;
+  let hedged = false;
+
+  try {
+    launch(false);
+    const settled: AttemptResult[] = [];
+
+    while (inFlight.size > 0) {
+      const racers: Array<Promise<[Promise<AttemptResult>, AttemptResult] | null>> = [...inFlight.keys()].map(
+        (attempt) => attempt.then((result): [Promise<AttemptResult>, AttemptResult] => [attempt, result])
+      );
+      if (hedgeDue) racers.push(hedgeDue);
+
+      const next = await Promise.race(racers);
+
+      if (next === null) {
+        // The first attempt is slower than usual - ask again
+        hedgeDue = null;
+        hedged = true;
+        inventoryHedges.inc({ operation, outcome: 'sent' });
+        launch(true);
+        continue;
+      }
+
+      const [attempt, result] = next;
+      inFlight.delete(attempt);
+      settled.push(result);
+
+      if (result.response?.ok) break;
+    }
+
+    for (const controller of inFlight.values()) {
+      controller.abort(HEDGE_LOST);
+    }
+
+    // A 2xx if there is one; else an attempt that never answered (its outcome is unknown); else the last answer
+    const result = settled.find((attempt) => attempt.response?.ok)
+      ?? settled.find((attempt) => attempt.error)
+      ?? settled[settled.length - 1];
+
+    const hedgeWon = hedged && result.hedged && !!result.response?.ok;
+    if (hedgeWon) {
+      inventoryHedges.inc({ operation, outcome: 'won' });
+    }
+
+    if (result.response) {
+      tracker.record(result.durationMs);
+    } else if (timeout.signal.aborted) {
+      tracker.record(timeoutMs);
+    }
+    tracker.recordCall(hedged, hedgeWon);
+
+    if (result.error) {
+      throw result.error;
+    }
+    return result.response!;
+  } finally {
+    clearTimeout(timeoutId);
+    clearTimeout(hedgeId);
+  }
 }
 
 export async function callInventoryDeduct(
   orderId: string,
-  productId: string,
-  quantity: number,
+  items: OrderItem[],
   headers: Record<string, string>
 ): Promise<InventoryResult> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), config.inventory.timeoutMs);
-
   try {
-    const response = await fetch(`${config.inventory.serviceUrl}/internal/inventory/deduct`, {
+    const payload: InventoryDeductRequest = { order_id: orderId, items };
+    // Deducts are idempotent per order_id, so a hedge can never deduct twice.
+    // Inventory refuses with DEADLINE_EXCEEDED instead of committing after we stop waiting.
+    const response = await timedInventoryFetch('deduct', `${config.inventory.serviceUrl}/internal/inventory/deduct/batch`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
         'X-Request-ID': headers['x-request-id'] || crypto.randomUUID(),
         'X-Correlation-ID': headers['x-correlation-id'] || crypto.randomUUID(),
       },
-      body: JSON.stringify({ order_id: orderId, product_id: productId, quantity }),
-      signal: controller.signal,
-    });
-
-    clearTimeout(timeoutId);
+      body: JSON.stringify(payload),
+    }, { hedge: true, deadline: true });
 
     if (!response.ok) {
       const error = await response.json();
@@ -50,7 +280,10 @@ export async function callInventoryDeduct(
 
     return { success: true, data: await response.json() };
   } catch (error: any) {
-    clearTimeout(timeoutId);
+    if (error.name === 'CircuitOpenError') {
+      // Nothing was sent - inventory state is unchanged
+      return { success: false, error: 'INVENTORY_UNAVAILABLE' };
+    }
     if (error.name === 'AbortError') {
       return { success: false, error: 'INVENTORY_SERVICE_TIMEOUT' };
     }
@@ -58,22 +291,20 @@ export async function callInventoryDeduct(
   }
 }
 
-export async function verifyInventoryDeduction(
+export async function callInventoryRestore(
   orderId: string,
-  productId: string,
-  quantity: number
+  headers: Record<string, string>
 ): Promise<InventoryResult> {
   try {
-    // Call the idempotent deduct endpoint - it will return existing operation if already processed
-    const response = await fetch(`${config.inventory.serviceUrl}/internal/inventory/deduct`, {
+    // Restore is keyed on order_id, so retrying after a timeout never restocks twice
+    const response = await timedInventoryFetch('restore', `${config.inventory.serviceUrl}/internal/inventory/restore`, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Request-ID': crypto.randomUUID(),
-        'X-Correlation-ID': crypto.randomUUID(),
+        'X-Request-ID': headers['x-request-id'] || crypto.randomUUID(),
+        'X-Correlation-ID': headers['x-correlation-id'] || crypto.randomUUID(),
       },
-      body: JSON.stringify({ order_id: orderId, product_id: productId, quantity }),
-      signal: AbortSignal.timeout(5000),
+      body: JSON.stringify({ order_id: orderId }),
     });
 
     if (!response.ok) {
@@ -83,6 +314,193 @@ export async function verifyInventoryDeduction(
 
     return { success: true, data: await response.json() };
   } catch (error: any) {
+    if (error.name === 'CircuitOpenError') {
+      // Nothing was sent - inventory state is unchanged
+      return { success: false, error: 'INVENTORY_UNAVAILABLE' };
+    }
+    if (error.name === 'AbortError') {
+      return { success: false, error: 'INVENTORY_SERVICE_TIMEOUT' };
+    }
+    return { success: false, error: error.message };
+  }
+}
+
+export interface DeductionLookupResponse {
+  order_id: string;
+  status: 'deducted' | 'not_found' | 'failed';
+  reason: string | null;
+  restored: boolean;
+  items: InventoryDeductLine[];
+  timestamp: string | null;
+}
+
+/**
+ * Read-only lookup of the deduction recorded for an order.
+ * Never deducts, so it is safe to call at any time after the original request.
+ */
+export async function lookupInventoryDeduction(orderId: string): Promise<InventoryResult> {
+  try {
+    const response = await timedInventoryFetch(
+      'lookup',
+      `${config.inventory.serviceUrl}/internal/inventory/operations/${encodeURIComponent(orderId)}`,
+      {
+        headers: {
+          'X-Request-ID': crypto.randomUUID(),
+          'X-Correlation-ID': crypto.randomUUID(),
+        },
+      },
+      { hedge: true }
+    );
+
+    return await lookupResult(response);
+  } catch (error: any) {
+    return { success: false, error: error.message, transient: true };
+  }
+}
+
+/**
+ * lookupInventoryDeduction for bulk reads such as exports. It has its own circuit breaker
+ * and a fixed timeout without hedging, so a long extract neither opens the circuit for order
+ * placement nor moves the adaptive timeouts and hedge budget of live lookups.
+ */
+export async function lookupInventoryDeductionForExport(orderId: string): Promise<InventoryResult> {
+  try {
+    const response = await inventoryFetch(
+      'export_lookup',
+      `${config.inventory.serviceUrl}/internal/inventory/operations/${encodeURIComponent(orderId)}`,
+      {
+        headers: {
+          'X-Request-ID': crypto.randomUUID(),
+          'X-Correlation-ID': crypto.randomUUID(),
+        },
+        signal: AbortSignal.timeout(config.inventory.lookupTimeoutMs),
+      },
+      exportLookupBreaker
+    );
+
+    return await lookupResult(response);
+  } catch (error: any) {
+    return { success: false, error: error.message, transient: true };
+  }
+}
+
+async function lookupResult(response: Response): Promise<InventoryResult> {
+  if (!response.ok) {
+    const error = await response.json();
+    return { success: false, error: error.error || error, transient: true };
+  }
+
+  return { success: true, data: await response.json() };
+}
+
+/**
+ * Record that this order will never be deducted, so a late original request is rejected.
+ * Returns the settled state - 'deducted' if the original request got there first.
+ */
+export async function recordDeductionTombstone(orderId: string, reason: string): Promise<InventoryResult> {
+  try {
+    const response = await timedInventoryFetch(
+      'tombstone',
+      `${config.inventory.serviceUrl}/internal/inventory/operations/${encodeURIComponent(orderId)}/tombstone`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Request-ID': crypto.randomUUID(),
+          'X-Correlation-ID': crypto.randomUUID(),
+        },
+        body: JSON.stringify({ reason }),
+      }
+    );
+
+    if (!response.ok) {
+      const error = await response.json();
+      return { success: false, error: error.error || error, transient: true };
+    }
+
+    return { success: true, data: await response.json() };
+  } catch (error: any) {
+    return { success: false, error: error.message, transient: true };
+  }
+}
+
+/**
+ * Find out whether inventory was deducted for an order without ever deducting.
+ * success=true means the deduction exists. A lookup that could not complete is
+ * reported as transient so callers keep the order undecided.
+ */
+export async function verifyInventoryDeduction(orderId: string): Promise<InventoryResult> {
+  return withSpan('inventory.verify', { 'order.id': orderId }, async (span) => {
+    const result = await verifyDeduction(orderId);
+    span.setAttribute('inventory.deducted', result.success);
+    return result;
+  });
+}
+
+async function verifyDeduction(orderId: string): Promise<InventoryResult> {
+  const lookup = await lookupInventoryDeduction(orderId);
+  if (!lookup.success) {
+    return lookup;
+  }
+
+  let state = lookup.data as DeductionLookupResponse;
+
+  if (state.status === 'not_found' && config.inventory.tombstoneOnMiss) {
+    const tombstone = await recordDeductionTombstone(orderId, 'Order service gave up waiting for the deduction');
+    if (!tombstone.success) {
+      return tombstone;
+    }
+    state = tombstone.data as DeductionLookupResponse;
+  }
+
+  if (state.status === 'deducted') {
+    return { success: true, data: state };
+  }
+
+  if (state.status === 'failed') {
+    return { success: false, error: { code: 'DEDUCTION_FAILED', message: state.reason || 'Inventory deduction failed' } };
+  }
+
+  return { success: false, error: { code: 'DEDUCTION_NOT_FOUND', message: 'Inventory was never deducted for this order' } };
+}
+
+export interface InventoryAvailabilityResponse {
+  available: boolean;
+  items: Array<{ product_id: string; requested_quantity: number; available_quantity: number; in_stock: boolean }>;
+}
+
+/**
+ * Current stock of each product against the requested quantities (unknown products have none).
+ * Read-only - nothing is reserved.
+ */
+export async function checkInventoryAvailability(
+  items: OrderItem[],
+  headers: Record<string, string>
+): Promise<InventoryResult> {
+  try {
+    const response = await timedInventoryFetch('check', `${config.inventory.serviceUrl}/api/inventory/check`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Request-ID': headers['x-request-id'] || crypto.randomUUID(),
+        'X-Correlation-ID': headers['x-correlation-id'] || crypto.randomUUID(),
+      },
+      body: JSON.stringify({ items }),
+    }, { hedge: true });
+
+    if (!response.ok) {
+      const error = await response.json();
+      return { success: false, error: error.error || error };
+    }
+
+    return { success: true, data: await response.json() };
+  } catch (error: any) {
+    if (error.name === 'CircuitOpenError') {
+      return { success: false, error: 'INVENTORY_UNAVAILABLE' };
+    }
+    if (error.name === 'AbortError') {
+      return { success: false, error: 'INVENTORY_SERVICE_TIMEOUT' };
+    }
     return { success: false, error: error.message };
   }
 }
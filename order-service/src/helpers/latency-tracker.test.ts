@@ -0,0 +1,111 @@
+import { describe, test, expect } from 'bun:test';
+import { createLatencyTracker, type LatencyTrackerOptions } from './latency-tracker';
+
+const OPTIONS: LatencyTrackerOptions = {
+  windowSize: 100,
+  minSamples: 10,
+  defaultTimeoutMs: 3000,
+  adaptive: true,
+  timeoutMultiplier: 2,
+  minTimeoutMs: 500,
+  maxTimeoutMs: 5000,
+  hedging: true,
+  minHedgeDelayMs: 50,
+  maxHedgeDelayMs: 1000,
+  maxHedgeRate: 0.1,
+};
+
+function trackerWith(samples: number[], options: Partial<LatencyTrackerOptions> = {}) {
+  const tracker = createLatencyTracker({ ...OPTIONS, ...options });
+  samples.forEach((sample) => tracker.record(sample));
+  return tracker;
+}
+
+// 1, 2, ..., n
+function range(n: number): number[] {
+  return Array.from({ length: n }, (_, i) => i + 1);
+}
+
+describe('createLatencyTracker', () => {
+  test('uses the default timeout and does not hedge until minSamples are recorded', () => {
+    const tracker = trackerWith(range(9).map((i) => i * 100));
+
+    expect(tracker.timeoutMs()).toBe(OPTIONS.defaultTimeoutMs);
+    expect(tracker.hedgeDelayMs()).toBeNull();
+    expect(tracker.getSnapshot().adaptive).toBe(false);
+  });
+
+  test('reports nearest-rank percentiles of the window', () => {
+    const snapshot = trackerWith(range(100)).getSnapshot();
+
+    expect(snapshot.p50_ms).toBe(50);
+    expect(snapshot.p95_ms).toBe(95);
+    expect(snapshot.p99_ms).toBe(99);
+    expect(snapshot.samples).toBe(100);
+  });
+
+  test('has no percentiles without samples', () => {
+    const snapshot = createLatencyTracker(OPTIONS).getSnapshot();
+
+    expect(snapshot.p50_ms).toBeNull();
+    expect(snapshot.p99_ms).toBeNull();
+  });
+
+  test('derives the timeout from p99 times the multiplier', () => {
+    // p99 of 10..1000 in steps of 10 is 990
+    const tracker = trackerWith(range(100).map((i) => i * 10));
+
+    expect(tracker.timeoutMs()).toBe(1980);
+    expect(tracker.getSnapshot().adaptive).toBe(true);
+  });
+
+  test('keeps the derived timeout within its bounds', () => {
+    expect(trackerWith(Array(20).fill(10)).timeoutMs()).toBe(OPTIONS.minTimeoutMs);
+    expect(trackerWith(Array(20).fill(4000)).timeoutMs()).toBe(OPTIONS.maxTimeoutMs);
+  });
+
+  test('keeps the default timeout when adaptation is off', () => {
+    const tracker = trackerWith(Array(20).fill(10), { adaptive: false });
+    expect(tracker.timeoutMs()).toBe(OPTIONS.defaultTimeoutMs);
+  });
+
+  test('drops samples that fall out of the window', () => {
+    const tracker = trackerWith([...Array(100).fill(4000), ...Array(100).fill(100)]);
+
+    expect(tracker.getSnapshot().samples).toBe(100);
+    expect(tracker.getSnapshot().p99_ms).toBe(100);
+    expect(tracker.timeoutMs()).toBe(OPTIONS.minTimeoutMs);
+  });
+
+  test('hedges after the p95 latency, within its bounds', () => {
+    expect(trackerWith(range(100).map((i) => i * 5)).hedgeDelayMs()).toBe(475);
+    expect(trackerWith(Array(20).fill(1)).hedgeDelayMs()).toBe(OPTIONS.minHedgeDelayMs);
+    expect(trackerWith(Array(20).fill(3000)).hedgeDelayMs()).toBe(OPTIONS.maxHedgeDelayMs);
+  });
+
+  test('does not hedge when hedging is off', () => {
+    expect(trackerWith(range(100), { hedging: false }).hedgeDelayMs()).toBeNull();
+  });
+
+  test('stops hedging once the hedge budget of the window is spent', () => {
+    const tracker = trackerWith(range(100));
+    for (let i = 0; i < 8; i++) tracker.recordCall(true, i % 3 === 0);
+    for (let i = 0; i < 82; i++) tracker.recordCall(false, false);
+
+    // 8 of 90 calls hedged - still under 10%
+    expect(tracker.hedgeDelayMs()).toBe(95);
+
+    tracker.recordCall(true, false);
+    tracker.recordCall(true, false);
+    // 10 of 92
+    expect(tracker.hedgeDelayMs()).toBeNull();
+
+    const snapshot = tracker.getSnapshot();
+    expect(snapshot.hedge_rate).toBe(0.109);
+    expect(snapshot.hedge_win_rate).toBe(0.3);
+    expect(snapshot.total_calls).toBe(92);
+    expect(snapshot.total_hedged).toBe(10);
+    // The snapshot still shows the delay a hedge would use
+    expect(snapshot.hedge_delay_ms).toBe(95);
+  });
+});
@@ -0,0 +1,125 @@
+export interface LatencyTrackerOptions {
+  windowSize: number; // Number of most recent calls considered
+  minSamples: number; // Samples required before timeouts and hedging adapt
+  defaultTimeoutMs: number; // Used until minSamples is reached (or when adaptation is off)
+  adaptive: boolean;
+  timeoutMultiplier: number; // timeout = p99 x multiplier ...
+  minTimeoutMs: number; // ... but never below this
+  maxTimeoutMs: number; // ... or above this
+  hedging: boolean;
+  minHedgeDelayMs: number; // Hedge after the p95 latency, within these bounds
+  maxHedgeDelayMs: number;
+  maxHedgeRate: number; // 0..1 share of calls in the window that may be hedged
+}
+
+export interface LatencySnapshot {
+  timeout_ms: number;
+  adaptive: boolean; // false while the window is still warming up
+  hedge_delay_ms: number | null;
+  p50_ms: number | null;
+  p95_ms: number | null;
+  p99_ms: number | null;
+  samples: number;
+  hedge_rate: number; // share of calls in the window that sent a hedge
+  hedge_win_rate: number; // share of hedged calls the hedge answered first
+  total_calls: number;
+  total_hedged: number;
+}
+
+export interface LatencyTracker {
+  record(durationMs: number): void;
+  recordCall(hedged: boolean, hedgeWon: boolean): void;
+  timeoutMs(): number;
+  hedgeDelayMs(): number | null;
+  getSnapshot(): LatencySnapshot;
+}
+
+interface CallRecord {
+  hedged: boolean;
+  hedgeWon: boolean;
+}
+
+/**
+ * Rolling latency window for one remote operation, deriving its timeout and hedge delay.
+ * Samples are the latencies of the attempts that answered (a timed-out call counts as
+ * its timeout), so a hedge that wins pulls the percentiles back down.
+ */
+export function createLatencyTracker(options: LatencyTrackerOptions): LatencyTracker {
+  const samples: number[] = [];
+  const calls: CallRecord[] = [];
+  let totalCalls = 0;
+  let totalHedged = 0;
+
+  function percentile(p: number): number | null {
+    if (samples.length === 0) return null;
+    const sorted = [...samples].sort((a, b) => a - b);
+    return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+  }
+
+  function warmedUp(): boolean {
+    return samples.length >= options.minSamples;
+  }
+
+  function record(durationMs: number): void {
+    samples.push(durationMs);
+    if (samples.length > options.windowSize) {
+      samples.shift();
+    }
+  }
+
+  function recordCall(hedged: boolean, hedgeWon: boolean): void {
+    totalCalls++;
+    if (hedged) totalHedged++;
+
+    calls.push({ hedged, hedgeWon });
+    if (calls.length > options.windowSize) {
+      calls.shift();
+    }
+  }
+
+  function timeoutMs(): number {
+    if (!options.adaptive || !warmedUp()) {
+      return options.defaultTimeoutMs;
+    }
+    const derived = Math.ceil(percentile(0.99)! * options.timeoutMultiplier);
+    return Math.min(options.maxTimeoutMs, Math.max(options.minTimeoutMs, derived));
+  }
+
+  function hedgeRate(): number {
+    return calls.length === 0 ? 0 : calls.filter((call) => call.hedged).length / calls.length;
+  }
+
+  // The p95 latency within bounds, or null while hedging is off or warming up
+  function derivedHedgeDelayMs(): number | null {
+    if (!options.hedging || !warmedUp()) {
+      return null;
+    }
+    return Math.min(options.maxHedgeDelayMs, Math.max(options.minHedgeDelayMs, percentile(0.95)!));
+  }
+
+  // null also once the hedge budget for the window is spent
+  function hedgeDelayMs(): number | null {
+    return hedgeRate() < options.maxHedgeRate ? derivedHedgeDelayMs() : null;
+  }
+
+  function getSnapshot(): LatencySnapshot {
+    const hedgedCalls = calls.filter((call) => call.hedged);
+    return {
+      timeout_ms: timeoutMs(),
+      adaptive: options.adaptive && warmedUp(),
+      hedge_delay_ms: derivedHedgeDelayMs(),
+      p50_ms: percentile(0.5),
+      p95_ms: percentile(0.95),
+      p99_ms: percentile(0.99),
+      samples: samples.length,
+      hedge_rate: Number(hedgeRate().toFixed(3)),
+      hedge_win_rate: hedgedCalls.length === 0
+        ? 0
+        : Number((hedgedCalls.filter((call) => call.hedgeWon).length / hedgedCalls.length).toFixed(3)),
+      total_calls: totalCalls,
+      total_hedged: totalHedged,
+    };
+  }
+
+  return { record, recordCall, timeoutMs, hedgeDelayMs, getSnapshot };
+}
@@ -0,0 +1,113 @@
+// Kept identical in order-service and inventory-service (src/helpers). Each service builds
+// from its own Docker context, so there is no shared package; CI fails if the copies differ.
+import { AsyncLocalStorage } from 'async_hooks';
+import type { Context, Next } from 'hono';
+import { trace } from '@opentelemetry/api';
+import { config } from '../config';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Fields attached to every line logged while the context is active
+export interface LogContext {
+  request_id?: string;
+  correlation_id?: string;
+  order_id?: string;
+  product_id?: string;
+  [field: string]: unknown;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+export function isLogLevel(value: unknown): value is LogLevel {
+  return typeof value === 'string' && value in LEVEL_ORDER;
+}
+
+let currentLevel: LogLevel = isLogLevel(config.logging.level) ? config.logging.level : 'info';
+
+export function getLogLevel(): LogLevel {
+  return currentLevel;
+}
+
+export function setLogLevel(level: LogLevel): void {
+  currentLevel = level;
+}
+
+/**
+ * Run `fn` with extra context fields on top of the current ones
+ */
+export function runWithLogContext<T>(fields: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...contextStorage.getStore(), ...fields }, fn);
+}
+
+/**
+ * Add fields to the active context (e.g. order_id once the body is parsed)
+ */
+export function addLogContext(fields: LogContext): void {
+  const store = contextStorage.getStore();
+  if (store) {
+    Object.assign(store, fields);
+  }
+}
+
+export function getLogContext(): LogContext {
+  return contextStorage.getStore() ?? {};
+}
+
+/**
+ * Log context per request, seeded from the X-Request-ID / X-Correlation-ID headers
+ */
+export async function logContextMiddleware(c: Context, next: Next) {
+  await runWithLogContext({
+    request_id: c.req.header('X-Request-ID'),
+    correlation_id: c.req.header('X-Correlation-ID'),
+  }, next);
+}
+
+function serializeError(error: unknown) {
+  if (error instanceof Error) {
+    const code = 'code' in error ? error.code : undefined;
+    return { name: error.name, message: error.message, code, stack: error.stack };
+  }
+  return error;
+}
+
+function write(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+  if (LEVEL_ORDER[level] < LEVEL_ORDER[currentLevel]) return;
+
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  const entry: Record<string, unknown> = {
+    timestamp: new Date().toISOString(),
+    level,
+    service: config.logging.serviceName,
+    message,
+    ...contextStorage.getStore(),
+    trace_id: spanContext?.traceId,
+    ...fields,
+  };
+
+  // Context and call-site fields never replace the core keys
+  entry.level = level;
+  entry.message = message;
+
+  if ('error' in fields) {
+    entry.error = serializeError(fields.error);
+  }
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+  } catch {
+    line = JSON.stringify({ timestamp: entry.timestamp, level, service: entry.service, message });
+  }
+
+  (level === 'error' || level === 'warn' ? process.stderr : process.stdout).write(line + '\n');
+}
+
+export const logger = {
+  debug: (message: string, fields?: Record<string, unknown>) => write('debug', message, fields),
+  info: (message: string, fields?: Record<string, unknown>) => write('info', message, fields),
+  warn: (message: string, fields?: Record<string, unknown>) => write('warn', message, fields),
+  error: (message: string, fields?: Record<string, unknown>) => write('error', message, fields),
+};
@@ -0,0 +1,192 @@
+import type { Context } from 'hono';
+import { prometheus } from '@hono/prometheus';
+import { Counter, Gauge, Registry } from 'prom-client';
+import { sql } from '../db';
+import { isRedisReady } from './redis-client';
+import { getRetryQueueDepth } from './retry-events';
+import { getOrderStatusListenerCount } from './order-status-events';
+import { getOrderEventListenerCount } from './order-event-stream';
+import { getInventoryLatencyStats } from './inventory-client';
+import { logger } from './logger';
+
+export const registry = new Registry();
+registry.setDefaultLabels({ service: 'order-service' });
+
+// Request count and latency histogram per method/route/status for every route
+export const { registerMetrics } = prometheus({ registry, collectDefaultMetrics: true });
+
+export type InventoryCallOutcome = 'success' | 'timeout' | 'error' | 'circuit_open' | 'cancelled';
+
+export const inventoryCalls = new Counter({
+  name: 'inventory_calls_total',
+  help: 'Calls from the order service to the inventory service by outcome',
+  labelNames: ['operation', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const inventoryHedges = new Counter({
+  name: 'inventory_hedged_requests_total',
+  help: 'Hedged inventory requests sent, and how many answered before the original',
+  labelNames: ['operation', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const webhookDeliveries = new Counter({
+  name: 'webhook_deliveries_total',
+  help: 'Webhook delivery attempts by outcome (delivered, retry, dead)',
+  labelNames: ['outcome'] as const,
+  registers: [registry],
+});
+
+export const outboxEvents = new Counter({
+  name: 'order_outbox_events_total',
+  help: 'Outbox entries handled by the relay, by kind and outcome (dispatched, failed, parked)',
+  labelNames: ['kind', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const rateLimitDecisions = new Counter({
+  name: 'rate_limit_decisions_total',
+  help: 'Rate limiter decisions by policy, tier and outcome (allowed, limited, bypassed)',
+  labelNames: ['policy', 'tier', 'outcome'] as const,
+  registers: [registry],
+});
+
+export const orderPlacements = new Counter({
+  name: 'order_placements_total',
+  help: 'Asynchronously accepted orders processed by the placement consumer, by outcome (confirmed, failed, undecided, deferred)',
+  labelNames: ['outcome'] as const,
+  registers: [registry],
+});
+
+export const bulkOrderRows = new Counter({
+  name: 'order_bulk_rows_total',
+  help: 'Orders processed by bulk imports, by row status and whether the import was a dry run',
+  labelNames: ['status', 'dry_run'] as const,
+  registers: [registry],
+});
+
+export const orderExportRows = new Counter({
+  name: 'order_export_rows_total',
+  help: 'Orders written by GET /internal/orders/export, by format',
+  labelNames: ['format'] as const,
+  registers: [registry],
+});
+
+export const sseConnections = new Gauge({
+  name: 'order_sse_connections',
+  help: 'Open order status SSE connections',
+  registers: [registry],
+});
+
+new Gauge({
+  name: 'order_status_listeners',
+  help: 'Listeners registered on the shared order status subscriber',
+  registers: [registry],
+  collect() {
+    this.set(getOrderStatusListenerCount());
+  },
+});
+
+new Gauge({
+  name: 'order_event_listeners',
+  help: 'Firehose SSE clients registered on the shared order event reader',
+  registers: [registry],
+  collect() {
+    this.set(getOrderEventListenerCount());
+  },
+});
+
+new Gauge({
+  name: 'orders_undecided',
+  help: 'Orders currently in the undecided state',
+  registers: [registry],
+  async collect() {
+    try {
+      const result = await sql`SELECT COUNT(*) as count FROM orders WHERE status = 'undecided'`;
+      this.set(parseInt(result[0].count));
+    } catch (error) {
+      logger.error('Failed to collect undecided order count', { error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'orders_pending',
+  help: 'Orders accepted asynchronously and still waiting for their inventory deduction',
+  registers: [registry],
+  async collect() {
+    try {
+      const result = await sql`SELECT COUNT(*) as count FROM orders WHERE status = 'pending'`;
+      this.set(parseInt(result[0].count));
+    } catch (error) {
+      logger.error('Failed to collect pending order count', { error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'order_retry_queue_depth',
+  help: 'Retry events by state (queued, processing, dead_lettered)',
+  labelNames: ['state'] as const,
+  registers: [registry],
+  async collect() {
+    // Never wait on a Redis reconnect while being scraped
+    if (!isRedisReady()) return;
+
+    try {
+      const depth = await getRetryQueueDepth();
+      for (const [state, count] of Object.entries(depth)) {
+        this.set({ state }, count);
+      }
+    } catch (error) {
+      logger.error('Failed to collect retry queue depth', { error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'order_outbox_pending',
+  help: 'Outbox entries not yet dispatched to Redis',
+  registers: [registry],
+  async collect() {
+    try {
+      const result = await sql`SELECT COUNT(*) as count FROM order_outbox WHERE dispatched_at IS NULL AND parked_at IS NULL`;
+      this.set(parseInt(result[0].count));
+    } catch (error) {
+      logger.error('Failed to collect outbox backlog', { error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'order_outbox_parked',
+  help: 'Outbox entries parked after running out of dispatch attempts',
+  registers: [registry],
+  async collect() {
+    try {
+      const result = await sql`SELECT COUNT(*) as count FROM order_outbox WHERE parked_at IS NOT NULL AND dispatched_at IS NULL`;
+      this.set(parseInt(result[0].count));
+    } catch (error) {
+      logger.error('Failed to collect parked outbox entries', { error });
+    }
+  },
+});
+
+new Gauge({
+  name: 'inventory_timeout_ms',
+  help: 'Timeout currently applied to each inventory operation, derived from its recent latencies',
+  labelNames: ['operation'] as const,
+  registers: [registry],
+  collect() {
+    for (const [operation, snapshot] of Object.entries(getInventoryLatencyStats())) {
+      this.set({ operation }, snapshot.timeout_ms);
+    }
+  },
+});
+
+// GET /metrics - Prometheus text format
+export async function printMetrics(c: Context) {
+  c.header('Content-Type', registry.contentType);
+  return c.body(await registry.metrics());
+}
@@ -0,0 +1,247 @@
+import { getRedisClient, type RedisClient } from './redis-client';
+import { getOrderItems, type OrderItem } from './order-helpers';
+import type { OrderStatus } from './order-status';
+import { withSpan } from './tracing';
+import { logger } from './logger';
+import { config } from '../config';
+
+export type OrderEventType = 'created' | 'pending' | 'undecided' | 'confirmed' | 'failed' | 'cancelled';
+
+export const ORDER_EVENT_TYPES: OrderEventType[] = ['created', 'pending', 'undecided', 'confirmed', 'failed', 'cancelled'];
+
+export interface OrderLifecycleEvent {
+  id: string; // Redis stream entry id, used as the SSE id
+  type: OrderEventType;
+  order_id: string;
+  user_id: string | null; // Owner of the order; null for anonymous orders
+  status: OrderStatus;
+  product_ids: string[];
+  error_message?: string;
+  timestamp: string;
+}
+
+interface StreamEntry {
+  id: string;
+  message: Record<string, string>;
+}
+
+// Every order lifecycle event, in order, trimmed to roughly config.eventStream.maxLength entries
+const ORDER_EVENT_STREAM_KEY = 'order:events';
+
+// Pause before the shared reader retries after a failed read
+const READER_RETRY_MS = 1000;
+
+// In-process firehose listeners, fed by the one shared reader below
+const eventListeners = new Set<(event: OrderLifecycleEvent) => void>();
+let readerReady: Promise<void> | null = null;
+
+/**
+ * Append a lifecycle event to the firehose stream. Called by the outbox relay,
+ * which retries if this throws.
+ */
+export async function appendOrderEvent(
+  event: Omit<OrderLifecycleEvent, 'id' | 'product_ids' | 'timestamp'> & { items?: OrderItem[] }
+): Promise<string> {
+  const redis = await getRedisClient();
+  const items = event.items ?? await getOrderItems(event.order_id);
+
+  const fields: Record<string, string> = {
+    type: event.type,
+    order_id: event.order_id,
+    user_id: event.user_id ?? '',
+    status: event.status,
+    product_ids: items.map((item) => item.product_id).join(','),
+    timestamp: new Date().toISOString(),
+  };
+  if (event.error_message) {
+    fields.error_message = event.error_message;
+  }
+
+  const id = await withSpan('redis.append_order_event', { 'db.system': 'redis', 'order.id': event.order_id }, () =>
+    redis.xAdd(ORDER_EVENT_STREAM_KEY, '*', fields, {
+      TRIM: { strategy: 'MAXLEN', strategyModifier: '~', threshold: config.eventStream.maxLength },
+    })
+  );
+
+  logger.debug('Appended order event', { order_id: event.order_id, event_type: event.type, event_id: id });
+  return id;
+}
+
+/**
+ * Id of the newest entry, so a fresh subscriber starts from "now" without missing
+ * anything appended between connecting and its first read
+ */
+export async function latestOrderEventId(): Promise<string> {
+  const redis = await getRedisClient();
+  const newest = await redis.xRevRange(ORDER_EVENT_STREAM_KEY, '+', '-', { COUNT: 1 });
+  return newest.length > 0 ? newest[0].id : '0-0';
+}
+
+/**
+ * Listen to the firehose. All listeners in the process share a single XREAD reader,
+ * so SSE clients never open Redis connections of their own.
+ * With `afterId`, the events after it are replayed first; live events that arrive
+ * meanwhile are held back and delivered once, in order, after the replay.
+ * Without it, only events read after subscribing are delivered.
+ * Returns a function that removes the listener.
+ */
+export async function subscribeToOrderEvents(
+  afterId: string | null,
+  onEvent: (event: OrderLifecycleEvent) => void
+): Promise<() => void> {
+  await ensureEventReader();
+
+  let held: OrderLifecycleEvent[] | null = afterId ? [] : null;
+  let lastDelivered = afterId;
+
+  const deliver = (event: OrderLifecycleEvent) => {
+    if (lastDelivered && compareStreamIds(event.id, lastDelivered) <= 0) return;
+    lastDelivered = event.id;
+    onEvent(event);
+  };
+
+  const listener = (event: OrderLifecycleEvent) => {
+    if (held) {
+      held.push(event);
+    } else {
+      deliver(event);
+    }
+  };
+
+  eventListeners.add(listener);
+  const remove = () => {
+    eventListeners.delete(listener);
+  };
+
+  if (afterId) {
+    try {
+      await replayOrderEvents(afterId, deliver);
+    } catch (error) {
+      remove();
+      throw error;
+    }
+
+    const caughtUp = held ?? [];
+    held = null;
+    caughtUp.forEach(deliver);
+  }
+
+  return remove;
+}
+
+/**
+ * Number of listeners registered on the shared firehose reader
+ */
+export function getOrderEventListenerCount(): number {
+  return eventListeners.size;
+}
+
+export function isStreamId(value: string): boolean {
+  return /^\d+-\d+$/.test(value);
+}
+
+// Opens the shared reader on first use; a failed attempt is retried by the next caller
+function ensureEventReader(): Promise<void> {
+  if (!readerReady) {
+    readerReady = (async () => {
+      const redis = await getRedisClient();
+      // XREAD BLOCK ties up its connection, so the reader has its own
+      const reader = redis.duplicate();
+      reader.on('error', (error) => logger.error('Order event reader error', { error }));
+
+      await reader.connect();
+      const startId = await latestOrderEventId();
+
+      logger.info('Order event reader connected', { start_id: startId });
+      void pumpOrderEvents(reader, startId);
+    })().catch((error) => {
+      readerReady = null;
+      throw error;
+    });
+  }
+
+  return readerReady;
+}
+
+// Runs for the life of the process; a failed read is retried from the last id seen
+async function pumpOrderEvents(reader: RedisClient, lastId: string): Promise<never> {
+  while (true) {
+    try {
+      for (const event of await readOrderEvents(reader, lastId)) {
+        lastId = event.id;
+        dispatch(event);
+      }
+    } catch (error) {
+      logger.error('Order event read failed', { last_event_id: lastId, error });
+      await sleep(READER_RETRY_MS);
+    }
+  }
+}
+
+function dispatch(event: OrderLifecycleEvent): void {
+  // Copy - listeners may unsubscribe from inside the callback
+  for (const listener of [...eventListeners]) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error('Order event listener failed', { event_id: event.id, error });
+    }
+  }
+}
+
+// Block for entries after `lastId`; empty when nothing arrived within config.eventStream.blockMs
+async function readOrderEvents(reader: RedisClient, lastId: string): Promise<OrderLifecycleEvent[]> {
+  const reply = await reader.xRead(
+    { key: ORDER_EVENT_STREAM_KEY, id: lastId },
+    { BLOCK: config.eventStream.blockMs, COUNT: config.eventStream.readBatchSize }
+  ) as Array<{ messages: StreamEntry[] }> | null;
+
+  if (!reply || reply.length === 0) {
+    return [];
+  }
+
+  return reply[0].messages.map(toLifecycleEvent);
+}
+
+// Entries after `afterId`, page by page, on the shared client - XRANGE does not block
+async function replayOrderEvents(afterId: string, onEvent: (event: OrderLifecycleEvent) => void): Promise<void> {
+  const redis = await getRedisClient();
+  let lastId = afterId;
+
+  while (true) {
+    const entries = await redis.xRange(ORDER_EVENT_STREAM_KEY, `(${lastId}`, '+', {
+      COUNT: config.eventStream.readBatchSize,
+    }) as StreamEntry[];
+
+    for (const entry of entries) {
+      lastId = entry.id;
+      onEvent(toLifecycleEvent(entry));
+    }
+
+    if (entries.length < config.eventStream.readBatchSize) return;
+  }
+}
+
+function toLifecycleEvent({ id, message }: StreamEntry): OrderLifecycleEvent {
+  return {
+    id,
+    type: message.type as OrderEventType,
+    order_id: message.order_id,
+    user_id: message.user_id || null,
+    status: message.status as OrderLifecycleEvent['status'],
+    product_ids: message.product_ids ? message.product_ids.split(',') : [],
+    error_message: message.error_message,
+    timestamp: message.timestamp,
+  };
+}
+
+// Stream ids are <ms>-<seq>; compared as numbers, not text
+function compareStreamIds(a: string, b: string): number {
+  const [aMs, aSeq] = a.split('-').map(Number);
+  const [bMs, bSeq] = b.split('-').map(Number);
+  return aMs - bMs || aSeq - bSeq;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,3 +1,163 @@
+import { sql } from '../db';
+import { recordStatusChange } from './order-status';
+import { requestFingerprint } from './fingerprint';
+import { withSpan } from './tracing';
+import { recordOrderEvent, recordRetryEvent, recordOrderPlacement } from './order-outbox';
+import { config } from '../config';
+
+export interface OrderItem {
+  product_id: string;
+  quantity: number;
+}
+
 export function generateOrderId(): string {
   return `ORD-${crypto.randomUUID()}`;
 }
+
+/**
+ * Normalize an order request body into cart lines.
+ * Accepts either `items[]` or the legacy single `product_id`/`quantity` pair.
+ */
+export function parseOrderItems(body: any): { items: OrderItem[] } | { error: string } {
+  const rawItems = Array.isArray(body?.items)
+    ? body.items
+    : body?.product_id !== undefined
+      ? [{ product_id: body.product_id, quantity: body.quantity }]
+      : null;
+
+  if (!rawItems || rawItems.length === 0) {
+    return { error: 'items must contain at least one product' };
+  }
+
+  const items: OrderItem[] = [];
+  const seen = new Set<string>();
+
+  for (const item of rawItems) {
+    if (!item || typeof item.product_id !== 'string' || item.product_id.length === 0) {
+      return { error: 'Each item requires a product_id' };
+    }
+    if (!Number.isInteger(item.quantity) || item.quantity <= 0) {
+      return { error: `Invalid quantity for ${item.product_id}` };
+    }
+    if (seen.has(item.product_id)) {
+      return { error: `Duplicate product_id ${item.product_id}` };
+    }
+    seen.add(item.product_id);
+    items.push({ product_id: item.product_id, quantity: item.quantity });
+  }
+
+  return { items };
+}
+
+/**
+ * Validate a user id from a request (orders.user_id is VARCHAR(64)).
+ * Absent means an anonymous request.
+ */
+export function parseUserId(value: unknown): { user_id: string | null } | { error: string } {
+  if (value === undefined || value === null) {
+    return { user_id: null };
+  }
+  if (typeof value !== 'string' || value.trim().length === 0 || value.length > 64) {
+    return { error: 'user_id must be a non-empty string of at most 64 characters' };
+  }
+  return { user_id: value };
+}
+
+/**
+ * Whether a caller may see an order. A named user sees only their own orders and an
+ * anonymous caller only anonymous ones, so anyone else's orders look like they do not exist.
+ */
+export function isVisibleTo(order: { user_id?: string | null }, userId: string | null): boolean {
+  return (order.user_id ?? null) === userId;
+}
+
+/**
+ * The user who owns an order; null for anonymous orders (and orders that do not exist)
+ */
+export async function getOrderOwner(orderId: string): Promise<string | null> {
+  const [order] = await sql`SELECT user_id FROM orders WHERE order_id = ${orderId}`;
+  return order?.user_id ?? null;
+}
+
+/**
+ * Load the cart lines of an order in line order. An order without lines (placed before
+ * order_items existed and not yet backfilled) falls back to its single-product columns.
+ */
+export async function getOrderItems(orderId: string): Promise<OrderItem[]> {
+  const rows = await sql`
+    SELECT product_id, quantity FROM order_items
+    WHERE order_id = ${orderId}
+    ORDER BY line_no
+  `;
+
+  if (rows.length === 0) {
+    const [legacy] = await sql`SELECT product_id, quantity FROM orders WHERE order_id = ${orderId}`;
+    return legacy?.product_id && legacy.quantity ? [{ product_id: legacy.product_id, quantity: legacy.quantity }] : [];
+  }
+
+  return rows.map((row) => ({ product_id: row.product_id, quantity: row.quantity }));
+}
+
+interface NewOrder {
+  order_id: string;
+  user_id?: string | null;
+  items: OrderItem[];
+  status: 'pending' | 'confirmed' | 'failed' | 'undecided';
+  error_message?: string | null;
+  request_id: string;
+  correlation_id: string;
+}
+
+/**
+ * Insert an order together with its cart lines, first history entry and outbox events
+ * in one transaction. An undecided order also gets its first retry event, and a pending
+ * one its placement.
+ * product_id/quantity on the orders row are only set for single-line orders.
+ */
+export async function insertOrder(order: NewOrder): Promise<void> {
+  const single = order.items.length === 1 ? order.items[0] : null;
+
+  await withSpan('db.insert_order', { 'db.system': 'postgresql', 'order.id': order.order_id }, () => sql.begin(async (tx) => {
+    await tx`
+      INSERT INTO orders (
+        order_id, user_id, product_id, quantity, status, error_message, request_fingerprint, request_id, correlation_id
+      ) VALUES (
+        ${order.order_id}, ${order.user_id ?? null}, ${single?.product_id ?? null}, ${single?.quantity ?? null}, ${order.status},
+        ${order.error_message ?? null}, ${requestFingerprint(order.items)}, ${order.request_id}, ${order.correlation_id}
+      )
+    `;
+
+    const lines = order.items.map((item, index) => ({
+      order_id: order.order_id,
+      line_no: index + 1,
+      product_id: item.product_id,
+      quantity: item.quantity,
+    }));
+
+    await tx`INSERT INTO order_items ${tx(lines, 'order_id', 'line_no', 'product_id', 'quantity')}`;
+
+    // The order exists, then its first status
+    await recordOrderEvent(tx, { type: 'created', order_id: order.order_id, status: order.status, items: order.items });
+
+    await recordStatusChange(tx, {
+      order_id: order.order_id,
+      from: null,
+      to: order.status,
+      actor: 'api',
+      error_message: order.error_message,
+    });
+
+    if (order.status === 'undecided') {
+      await recordRetryEvent(tx, {
+        order_id: order.order_id,
+        items: order.items,
+        attempt: 0,
+        max_attempts: config.worker.maxRetryAttempts,
+      });
+    }
+
+    if (order.status === 'pending') {
+      await recordOrderPlacement(tx, { order_id: order.order_id, items: order.items, request_id: order.request_id });
+    }
+  }));
+}
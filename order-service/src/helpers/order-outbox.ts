@@ -0,0 +1,259 @@
+import type { TransactionSql } from 'postgres';
+import { sql } from '../db';
+import { config } from '../config';
+import { getOrderItems, getOrderOwner, type OrderItem } from './order-helpers';
+import type { OrderStatus } from './order-status';
+import { appendOrderEvent, type OrderEventType } from './order-event-stream';
+import { publishOrderStatusChange } from './order-status-events';
+import { enqueueRetryEvent } from './retry-events';
+import { enqueueOrderPlacement } from './order-placement-queue';
+import { queueWebhookDeliveries } from './webhooks';
+import { outboxEvents } from './metrics';
+import { withSpan, currentTraceparent, contextFromTraceparent } from './tracing';
+import { logger, getLogContext, runWithLogContext } from './logger';
+
+export type OutboxKind = 'order_event' | 'retry_event' | 'placement';
+
+interface OrderEventPayload {
+  event_id: string; // Webhook event id, fixed here so a re-dispatch does not queue a second delivery
+  type: OrderEventType;
+  status: OrderStatus;
+  items?: OrderItem[];
+  error_message?: string | null;
+}
+
+interface RetryEventPayload {
+  items: OrderItem[];
+  attempt: number;
+  max_attempts: number;
+}
+
+interface PlacementPayload {
+  items: OrderItem[];
+  request_id: string;
+}
+
+interface OutboxEntry {
+  outbox_id: string;
+  order_id: string;
+  kind: OutboxKind;
+  payload: OrderEventPayload | RetryEventPayload | PlacementPayload;
+  traceparent: string | null;
+  correlation_id: string | null;
+  attempts: number;
+}
+
+// Statuses announced on the per-order status channel
+const RESOLVED_STATUSES = ['confirmed', 'failed', 'cancelled'];
+
+/**
+ * Queue a lifecycle event for the firehose, webhooks and (for resolutions) the status channel.
+ * Must run in the transaction that makes the change.
+ */
+export async function recordOrderEvent(
+  tx: TransactionSql,
+  event: { type: OrderEventType; order_id: string; status: OrderStatus; items?: OrderItem[]; error_message?: string | null }
+): Promise<void> {
+  const payload: OrderEventPayload = {
+    event_id: crypto.randomUUID(),
+    type: event.type,
+    status: event.status,
+    items: event.items,
+    error_message: event.error_message ?? null,
+  };
+
+  await insertEntry(tx, event.order_id, 'order_event', payload);
+}
+
+/**
+ * Queue the first verification of an undecided order. Must run in the transaction that creates it.
+ */
+export async function recordRetryEvent(
+  tx: TransactionSql,
+  event: { order_id: string } & RetryEventPayload
+): Promise<void> {
+  const { order_id, ...payload } = event;
+  await insertEntry(tx, order_id, 'retry_event', payload);
+}
+
+/**
+ * Queue an order accepted with 202 for the placement consumer. Must run in the transaction
+ * that creates it (or, for the sweeper, one that finds it still pending).
+ */
+export async function recordOrderPlacement(
+  tx: TransactionSql,
+  placement: { order_id: string } & PlacementPayload
+): Promise<void> {
+  const { order_id, ...payload } = placement;
+  await insertEntry(tx, order_id, 'placement', payload);
+}
+
+async function insertEntry(tx: TransactionSql, orderId: string, kind: OutboxKind, payload: object): Promise<void> {
+  await tx`
+    INSERT INTO order_outbox (order_id, kind, payload, traceparent, correlation_id)
+    VALUES (
+      ${orderId}, ${kind}, ${JSON.stringify(payload)}::jsonb,
+      ${currentTraceparent() ?? null}, ${getLogContext().correlation_id ?? null}
+    )
+  `;
+}
+
+/**
+ * Publish the oldest undispatched entries and mark them dispatched. One relay works at a
+ * time across instances (advisory lock), so entries leave in the order they were written.
+ * A failed entry is retried with backoff and holds back the later entries of its order
+ * meanwhile; other orders carry on. After config.outbox.maxAttempts failures it is parked,
+ * which releases the rest of its order. Returns the number dispatched, or null if another
+ * relay holds the lock.
+ */
+export async function relayOutboxBatch(): Promise<number | null> {
+  return sql.begin(async (tx) => {
+    const [lock] = await tx`SELECT pg_try_advisory_xact_lock(hashtext('order_outbox_relay')) as acquired`;
+    if (!lock.acquired) {
+      return null;
+    }
+
+    // Due entries whose order has no earlier entry still backing off
+    const entries = await tx<OutboxEntry[]>`
+      SELECT o.outbox_id, o.order_id, o.kind, o.payload, o.traceparent, o.correlation_id, o.attempts
+      FROM order_outbox o
+      WHERE o.dispatched_at IS NULL AND o.parked_at IS NULL
+        AND (o.next_attempt_at IS NULL OR o.next_attempt_at <= NOW())
+        AND NOT EXISTS (
+          SELECT 1 FROM order_outbox e
+          WHERE e.order_id = o.order_id AND e.outbox_id < o.outbox_id
+            AND e.dispatched_at IS NULL AND e.parked_at IS NULL AND e.next_attempt_at > NOW()
+        )
+      ORDER BY o.outbox_id ASC
+      LIMIT ${config.outbox.batchSize}
+    `;
+
+    const dispatched: string[] = [];
+    const held = new Set<string>();
+
+    for (const entry of entries) {
+      if (held.has(entry.order_id)) continue;
+
+      try {
+        await dispatchEntry(entry);
+        dispatched.push(entry.outbox_id);
+        outboxEvents.inc({ kind: entry.kind, outcome: 'dispatched' });
+      } catch (error) {
+        const attempt = entry.attempts + 1;
+        const lastError = error instanceof Error ? error.message : 'Dispatch failed';
+        const details = { order_id: entry.order_id, outbox_id: entry.outbox_id, kind: entry.kind, attempt, error };
+
+        if (attempt >= config.outbox.maxAttempts) {
+          // Set aside for an operator; the later entries of the order go on without it
+          outboxEvents.inc({ kind: entry.kind, outcome: 'parked' });
+          logger.error('Outbox entry parked after repeated failures', details);
+
+          await tx`
+            UPDATE order_outbox
+            SET attempts = ${attempt}, last_error = ${lastError}, parked_at = NOW()
+            WHERE outbox_id = ${entry.outbox_id}
+          `;
+          continue;
+        }
+
+        held.add(entry.order_id);
+        outboxEvents.inc({ kind: entry.kind, outcome: 'failed' });
+        logger.warn('Outbox entry not dispatched, will retry', details);
+
+        await tx`
+          UPDATE order_outbox
+          SET attempts = ${attempt}, last_error = ${lastError},
+              next_attempt_at = NOW() + (${outboxRetryDelayMs(attempt)}::int * INTERVAL '1 millisecond')
+          WHERE outbox_id = ${entry.outbox_id}
+        `;
+      }
+    }
+
+    // If this commit is lost the entries are published again - consumers see them at least once
+    if (dispatched.length > 0) {
+      await tx`
+        UPDATE order_outbox
+        SET dispatched_at = NOW(), attempts = attempts + 1
+        WHERE outbox_id IN ${tx(dispatched)}
+      `;
+    }
+
+    return dispatched.length;
+  }) as Promise<number | null>;
+}
+
+// 1s, 2s, 4s, ... after the 1st, 2nd, 3rd failure, capped at config.outbox.maxRetryDelayMs
+function outboxRetryDelayMs(attempt: number): number {
+  return Math.min(config.outbox.initialRetryDelayMs * 2 ** (attempt - 1), config.outbox.maxRetryDelayMs);
+}
+
+/**
+ * Delete dispatched entries older than config.outbox.retentionMs
+ */
+export async function pruneDispatchedOutbox(): Promise<number> {
+  const result = await sql`
+    DELETE FROM order_outbox
+    WHERE dispatched_at < NOW() - (${config.outbox.retentionMs}::bigint * INTERVAL '1 millisecond')
+  `;
+  return result.count;
+}
+
+// Throws if any target fails, leaving the entry undispatched
+async function dispatchEntry(entry: OutboxEntry): Promise<void> {
+  const context = { order_id: entry.order_id, correlation_id: entry.correlation_id ?? undefined };
+
+  await runWithLogContext(context, () =>
+    withSpan('outbox.dispatch', { 'order.id': entry.order_id, 'outbox.id': entry.outbox_id, 'outbox.kind': entry.kind }, async () => {
+      if (entry.kind === 'retry_event') {
+        const event = entry.payload as RetryEventPayload;
+        await enqueueRetryEvent({
+          order_id: entry.order_id,
+          items: event.items,
+          attempt: event.attempt,
+          max_attempts: event.max_attempts,
+          traceparent: entry.traceparent ?? undefined,
+          correlation_id: entry.correlation_id ?? undefined,
+        });
+        return;
+      }
+
+      if (entry.kind === 'placement') {
+        const placement = entry.payload as PlacementPayload;
+        await enqueueOrderPlacement({
+          order_id: entry.order_id,
+          items: placement.items,
+          request_id: placement.request_id,
+          traceparent: entry.traceparent ?? undefined,
+          correlation_id: entry.correlation_id ?? undefined,
+        });
+        return;
+      }
+
+      const event = entry.payload as OrderEventPayload;
+      const items = event.items ?? await getOrderItems(entry.order_id);
+      const errorMessage = event.error_message ?? undefined;
+
+      if (RESOLVED_STATUSES.includes(event.type)) {
+        await publishOrderStatusChange(entry.order_id, event.type as 'confirmed' | 'failed' | 'cancelled', errorMessage);
+      }
+
+      await appendOrderEvent({
+        type: event.type,
+        order_id: entry.order_id,
+        user_id: await getOrderOwner(entry.order_id),
+        status: event.status,
+        items,
+        error_message: errorMessage,
+      });
+
+      await queueWebhookDeliveries({
+        id: event.event_id,
+        type: event.type,
+        order_id: entry.order_id,
+        status: event.status,
+        items,
+        error_message: errorMessage,
+      });
+    }, { parent: contextFromTraceparent(entry.traceparent ?? undefined) })
+  );
+}
@@ -0,0 +1,121 @@
+import { hostname } from 'os';
+import { getRedisClient, type RedisClient } from './redis-client';
+import type { OrderItem } from './order-helpers';
+import { withSpan } from './tracing';
+import { logger } from './logger';
+import { config } from '../config';
+
+export interface OrderPlacement {
+  id: string; // Stream entry id, used to acknowledge it
+  order_id: string;
+  items: OrderItem[];
+  request_id: string;
+  correlation_id?: string;
+  traceparent?: string; // Trace of the request that accepted the order
+}
+
+// Orders accepted with 202, waiting for their inventory deduction
+const ORDER_PLACEMENT_STREAM_KEY = 'order:placements';
+// Every order-service instance reads as one consumer of this group, so each placement is handled once
+const ORDER_PLACEMENT_GROUP = 'order-placement';
+
+// This instance's consumer name; entries it leaves unacknowledged are claimed by the others
+export const PLACEMENT_CONSUMER = `${hostname()}-${process.pid}`;
+
+/**
+ * Append an accepted order to the placement stream. Called by the outbox relay,
+ * which retries if this throws.
+ */
+export async function enqueueOrderPlacement(placement: Omit<OrderPlacement, 'id'>): Promise<string> {
+  const redis = await getRedisClient();
+
+  const fields: Record<string, string> = {
+    order_id: placement.order_id,
+    items: JSON.stringify(placement.items),
+    request_id: placement.request_id,
+  };
+  if (placement.correlation_id) fields.correlation_id = placement.correlation_id;
+  if (placement.traceparent) fields.traceparent = placement.traceparent;
+
+  const id = await withSpan('redis.enqueue_order_placement', { 'db.system': 'redis', 'order.id': placement.order_id }, () =>
+    redis.xAdd(ORDER_PLACEMENT_STREAM_KEY, '*', fields)
+  );
+
+  logger.debug('Queued order placement', { order_id: placement.order_id, entry_id: id });
+  return id;
+}
+
+/**
+ * Create the consumer group (and the stream) unless they exist already
+ */
+export async function ensurePlacementGroup(redis: RedisClient): Promise<void> {
+  try {
+    await redis.xGroupCreate(ORDER_PLACEMENT_STREAM_KEY, ORDER_PLACEMENT_GROUP, '0', { MKSTREAM: true });
+  } catch (error: any) {
+    if (!String(error?.message).startsWith('BUSYGROUP')) {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Block on `reader` (a dedicated connection - XREADGROUP BLOCK ties it up) for placements
+ * no consumer has seen yet. Returns an empty list when nothing arrived within config.asyncOrders.blockMs.
+ */
+export async function readOrderPlacements(reader: RedisClient): Promise<OrderPlacement[]> {
+  const reply = await reader.xReadGroup(
+    ORDER_PLACEMENT_GROUP,
+    PLACEMENT_CONSUMER,
+    { key: ORDER_PLACEMENT_STREAM_KEY, id: '>' },
+    { BLOCK: config.asyncOrders.blockMs, COUNT: config.asyncOrders.batchSize }
+  ) as Array<{ messages: Array<{ id: string; message: Record<string, string> }> }> | null;
+
+  if (!reply || reply.length === 0) {
+    return [];
+  }
+
+  return reply[0].messages.map(parsePlacement);
+}
+
+/**
+ * Take over placements that were delivered but not acknowledged within
+ * config.asyncOrders.claimIdleMs - their consumer died, or left them for a later try
+ */
+export async function claimStalePlacements(redis: RedisClient): Promise<OrderPlacement[]> {
+  const reply = await redis.xAutoClaim(
+    ORDER_PLACEMENT_STREAM_KEY,
+    ORDER_PLACEMENT_GROUP,
+    PLACEMENT_CONSUMER,
+    config.asyncOrders.claimIdleMs,
+    '0-0',
+    { COUNT: config.asyncOrders.batchSize }
+  );
+
+  return reply.messages
+    .filter((entry): entry is { id: string; message: Record<string, string> } => entry !== null)
+    .map(parsePlacement);
+}
+
+/**
+ * Acknowledge a handled placement and drop it from the stream
+ */
+export async function ackOrderPlacement(redis: RedisClient, placement: OrderPlacement): Promise<void> {
+  await withSpan('redis.ack_order_placement', { 'db.system': 'redis', 'order.id': placement.order_id }, () =>
+    redis
+      .multi()
+      .xAck(ORDER_PLACEMENT_STREAM_KEY, ORDER_PLACEMENT_GROUP, placement.id)
+      .xDel(ORDER_PLACEMENT_STREAM_KEY, placement.id)
+      .exec()
+  );
+}
+
+function parsePlacement({ id, message }: { id: string; message: Record<string, string> }): OrderPlacement {
+  return {
+    id,
+    order_id: message.order_id,
+    items: message.items ? JSON.parse(message.items) : [],
+    request_id: message.request_id,
+    correlation_id: message.correlation_id,
+    traceparent: message.traceparent,
+  };
+}
@@ -0,0 +1,354 @@
+import type { Context } from 'hono';
+import { sql } from '../db';
+import { callInventoryDeduct, getInventoryCircuitState } from './inventory-client';
+import { resolveUndecidedOrder } from '../workers/undecided-resolver';
+import { getOrderItems, insertOrder, parseUserId, type OrderItem } from './order-helpers';
+import { requestFingerprint, diffItems, type FieldDifference } from './fingerprint';
+import { recordOrderRequest, type RequestOutcome } from './order-stats';
+import { isRedisReady } from './redis-client';
+import { logger } from './logger';
+import { config } from '../config';
+
+export type PlacementMode = 'sync' | 'async';
+
+export interface PlacementRequest {
+  order_id: string;
+  user_id: string | null; // null for anonymous orders
+  items: OrderItem[]; // Already validated by parseOrderItems
+  request_id: string;
+  correlation_id: string;
+  mode: PlacementMode;
+}
+
+export interface PlacementResult {
+  httpStatus: 200 | 202 | 409 | 503;
+  body: Record<string, any>;
+  headers: Record<string, string>;
+  replay: boolean; // the order_id already existed
+}
+
+export type PlacementResponse = Omit<PlacementResult, 'replay'>;
+
+/**
+ * 'async' for ?mode=async or a Prefer: respond-async header, 'sync' otherwise.
+ * null for an unknown mode.
+ */
+export function requestedMode(c: Context): PlacementMode | null {
+  const mode = c.req.query('mode');
+  if (mode !== undefined) {
+    return mode === 'sync' || mode === 'async' ? mode : null;
+  }
+
+  const preferences = (c.req.header('Prefer') || '').split(',').map((preference) => preference.split(';')[0].trim().toLowerCase());
+  return preferences.includes('respond-async') ? 'async' : 'sync';
+}
+
+/**
+ * The user a request acts for: the X-User-ID header, or `user_id` from the request body.
+ * null when neither is given; an error when they disagree.
+ */
+export function requestUserId(c: Context, bodyUserId?: unknown): { user_id: string | null } | { error: string } {
+  const header = parseUserId(c.req.header('X-User-ID'));
+  const body = parseUserId(bodyUserId);
+  if ('error' in header) return header;
+  if ('error' in body) return body;
+
+  if (header.user_id && body.user_id && header.user_id !== body.user_id) {
+    return { error: 'user_id does not match X-User-ID' };
+  }
+  return { user_id: header.user_id ?? body.user_id };
+}
+
+/**
+ * Place a new order, or answer a replay of an existing one - what POST /api/orders does
+ * once the body is valid. Records the request's latency and outcome for order_stats.
+ * Throws on unexpected errors.
+ */
+export async function placeOrder(request: PlacementRequest): Promise<PlacementResult> {
+  const startedAt = Date.now();
+  let recordOutcome = (_outcome: RequestOutcome) => {};
+
+  try {
+    // Check if order with this client-provided ID already exists (idempotency)
+    const existingOrder = await sql`
+      SELECT * FROM orders WHERE order_id = ${request.order_id}
+    `;
+    const replay = existingOrder.length > 0;
+
+    // Latency and outcome feed order_stats
+    recordOutcome = (outcome: RequestOutcome) =>
+      recordOrderRequest({ order_id: request.order_id, outcome, replay, latency_ms: Date.now() - startedAt });
+
+    const response = replay
+      ? await replayOrder(existingOrder[0], request, recordOutcome)
+      : await placeNewOrder(request, recordOutcome);
+
+    return { ...response, replay };
+  } catch (error) {
+    recordOutcome('error');
+    throw error;
+  }
+}
+
+async function replayOrder(
+  order: any,
+  request: PlacementRequest,
+  recordOutcome: (outcome: RequestOutcome) => void
+): Promise<PlacementResponse> {
+  const { items } = request;
+
+  // Only the user who placed the order may replay it - and learns nothing else about it
+  if ((order.user_id ?? null) !== request.user_id) {
+    return orderIdTaken();
+  }
+
+  const orderItems = await getOrderItems(order.order_id);
+
+  // A replay must ask for exactly what the original request did
+  const originalFingerprint = order.request_fingerprint ?? requestFingerprint(orderItems);
+  if (originalFingerprint !== requestFingerprint(items)) {
+    return idempotencyConflict(diffItems(orderItems, items));
+  }
+
+  // Accepted asynchronously and not placed yet - same answer as the original request
+  if (order.status === 'pending') {
+    recordOutcome('accepted');
+    return orderAccepted(order.order_id, orderItems, order.created_at);
+  }
+
+  // If status is undecided, verify with inventory service
+  if (order.status === 'undecided') {
+    logger.info('Verifying undecided order with inventory service on replay');
+
+    // Same read-only verification the background worker uses
+    const outcome = await resolveUndecidedOrder(order.order_id, { actor: 'api' });
+    recordOutcome(outcome.status);
+
+    if (outcome.status === 'confirmed') {
+      return respond(200, {
+        order_id: order.order_id,
+        status: 'confirmed',
+        product_id: order.product_id,
+        quantity: order.quantity,
+        items: orderItems,
+        message: 'Order placed and fulfilled',
+        timestamp: order.created_at,
+      });
+    } else if (outcome.status === 'failed') {
+      return respond(200, {
+        order_id: order.order_id,
+        status: 'failed',
+        product_id: order.product_id,
+        quantity: order.quantity,
+        items: orderItems,
+        message: outcome.error,
+        timestamp: order.created_at,
+      });
+    } else {
+      // Inventory could not be reached - the order stays undecided
+      return respond(503, {
+        order_id: order.order_id,
+        status: 'undecided',
+        error: {
+          code: 'INVENTORY_SERVICE_TIMEOUT',
+          message: 'Could not confirm inventory availability. Retry with the order ID.',
+          timestamp: new Date().toISOString(),
+        },
+      });
+    }
+  }
+
+  // Return existing order (confirmed, failed or cancelled)
+  recordOutcome(order.status);
+  return respond(200, {
+    order_id: order.order_id,
+    status: order.status,
+    product_id: order.product_id,
+    quantity: order.quantity,
+    items: orderItems,
+    message: order.status === 'confirmed'
+      ? 'Order placed and fulfilled'
+      : order.status === 'cancelled' ? 'Order cancelled and stock restored' : order.error_message,
+    timestamp: order.created_at,
+  });
+}
+
+async function placeNewOrder(
+  request: PlacementRequest,
+  recordOutcome: (outcome: RequestOutcome) => void
+): Promise<PlacementResponse> {
+  const { order_id, items } = request;
+  const single = items.length === 1 ? items[0] : null;
+
+  // Async mode - persist as pending and let the placement consumer deduct. While Redis
+  // is down the order is placed synchronously rather than left waiting in the outbox.
+  if (request.mode === 'async' && config.asyncOrders.enabled && isRedisReady()) {
+    await insertOrder({
+      order_id,
+      user_id: request.user_id,
+      items,
+      status: 'pending',
+      request_id: request.request_id,
+      correlation_id: request.correlation_id,
+    });
+    recordOutcome('accepted');
+
+    const accepted = orderAccepted(order_id, items, new Date());
+    return { ...accepted, headers: { ...accepted.headers, 'Preference-Applied': 'respond-async' } };
+  }
+
+  // Call inventory service to deduct every line (using client-provided order_id)
+  const inventoryResult = await callInventoryDeduct(order_id, items, {
+    'x-request-id': request.request_id,
+    'x-correlation-id': request.correlation_id,
+  });
+
+  if (inventoryResult.success) {
+    // Order confirmed - save to database
+    await insertOrder({
+      order_id,
+      user_id: request.user_id,
+      items,
+      status: 'confirmed',
+      request_id: request.request_id,
+      correlation_id: request.correlation_id,
+    });
+    recordOutcome('confirmed');
+
+    return respond(200, {
+      order_id: order_id,
+      status: 'confirmed',
+      product_id: single?.product_id ?? null,
+      quantity: single?.quantity ?? null,
+      items,
+      message: 'Order placed and fulfilled',
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Circuit open - the request never left this service, so nothing is recorded
+  // and the client can retry later with the same order_id
+  if (inventoryResult.error === 'INVENTORY_UNAVAILABLE') {
+    recordOutcome('unavailable');
+    return inventoryUnavailable();
+  }
+
+  // Inventory already deducted a different cart under this order_id - record nothing
+  if (inventoryResult.error?.code === 'IDEMPOTENCY_KEY_REUSED') {
+    return idempotencyConflict(inventoryResult.error.differences ?? []);
+  }
+
+  // Handle timeout vs actual failure
+  if (inventoryResult.error === 'INVENTORY_SERVICE_TIMEOUT') {
+    // Set status as undecided since inventory may have been deducted
+    const errorMessage = 'Could not confirm inventory availability. Retry with the order ID.';
+
+    await insertOrder({
+      order_id,
+      user_id: request.user_id,
+      items,
+      status: 'undecided',
+      error_message: errorMessage,
+      request_id: request.request_id,
+      correlation_id: request.correlation_id,
+    });
+    recordOutcome('undecided');
+
+    return respond(503, {
+      order_id: order_id,
+      status: 'undecided',
+      error: {
+        code: 'INVENTORY_SERVICE_TIMEOUT',
+        message: errorMessage,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  }
+
+  // Actual failure (insufficient stock on any line, DEADLINE_EXCEEDED, etc.) - nothing was deducted
+  const errorMessage = typeof inventoryResult.error === 'string'
+    ? inventoryResult.error
+    : inventoryResult.error?.message || 'Insufficient inventory';
+
+  await insertOrder({
+    order_id,
+    user_id: request.user_id,
+    items,
+    status: 'failed',
+    error_message: errorMessage,
+    request_id: request.request_id,
+    correlation_id: request.correlation_id,
+  });
+  recordOutcome('failed');
+
+  return respond(200, {
+    order_id: order_id,
+    status: 'failed',
+    product_id: single?.product_id ?? null,
+    quantity: single?.quantity ?? null,
+    items,
+    message: errorMessage,
+    timestamp: new Date().toISOString(),
+  });
+}
+
+function respond(httpStatus: PlacementResponse['httpStatus'], body: Record<string, any>, headers: Record<string, string> = {}): PlacementResponse {
+  return { httpStatus, body, headers };
+}
+
+function orderAccepted(orderId: string, items: OrderItem[], acceptedAt: Date): PlacementResponse {
+  const single = items.length === 1 ? items[0] : null;
+  const self = `/api/orders/${encodeURIComponent(orderId)}`;
+
+  return respond(202, {
+    order_id: orderId,
+    status: 'pending',
+    product_id: single?.product_id ?? null,
+    quantity: single?.quantity ?? null,
+    items,
+    message: 'Order accepted, inventory is being reserved',
+    links: {
+      self,
+      events: `${self}/events`,
+      history: `${self}/history`,
+    },
+    timestamp: acceptedAt,
+  }, { Location: self });
+}
+
+export function idempotencyConflict(differences: FieldDifference[]): PlacementResponse {
+  return respond(409, {
+    error: {
+      code: 'IDEMPOTENCY_KEY_REUSED',
+      message: 'order_id was already used for a different request',
+      differences,
+    },
+  });
+}
+
+export function orderIdTaken(): PlacementResponse {
+  return respond(409, {
+    error: {
+      code: 'ORDER_ID_TAKEN',
+      message: 'order_id is already used by another order. Choose a new order_id.',
+    },
+  });
+}
+
+export function inventoryUnavailable(): PlacementResponse {
+  const headers: Record<string, string> = {};
+
+  const { retry_at } = getInventoryCircuitState();
+  if (retry_at) {
+    const seconds = Math.max(1, Math.ceil((new Date(retry_at).getTime() - Date.now()) / 1000));
+    headers['Retry-After'] = String(seconds);
+  }
+
+  return respond(503, {
+    error: {
+      code: 'INVENTORY_UNAVAILABLE',
+      message: 'Inventory service is unavailable. Retry later with the same order ID.',
+      timestamp: new Date().toISOString(),
+    },
+  }, headers);
+}
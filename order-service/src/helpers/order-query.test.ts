@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'bun:test';
+import { Hono } from 'hono';
+import { parseOrderListQuery, parseOrderSort, type OrderListQuery } from './order-query';
+
+// Runs the parser on a real request, the way the routes call it
+async function parse(search: string): Promise<OrderListQuery | { error: string }> {
+  let result: OrderListQuery | { error: string } | undefined;
+  const app = new Hono();
+  app.get('/', (c) => {
+    result = parseOrderListQuery(c);
+    return c.body(null, 204);
+  });
+
+  await app.request(`/?${search}`);
+  return result!;
+}
+
+async function parseOk(search: string): Promise<OrderListQuery> {
+  const result = await parse(search);
+  if ('error' in result) throw new Error(result.error);
+  return result;
+}
+
+async function parseError(search: string): Promise<string> {
+  const result = await parse(search);
+  if (!('error' in result)) throw new Error(`Expected ${search} to be rejected`);
+  return result.error;
+}
+
+function cursor(sort: string, key: string, orderId: string): string {
+  return Buffer.from(JSON.stringify([sort, key, orderId])).toString('base64url');
+}
+
+describe('parseOrderListQuery', () => {
+  test('defaults to the newest 50 orders with no filters', async () => {
+    const query = await parseOk('');
+
+    expect(query.sort.name).toBe('-created_at');
+    expect(query.limit).toBe(50);
+    expect(query.offset).toBe(0);
+    expect(query.cursor).toBeNull();
+    expect(query.filters).toEqual({
+      userId: null,
+      anonymousOnly: false,
+      statuses: null,
+      productIds: null,
+      correlationId: null,
+      createdFrom: null,
+      createdTo: null,
+      updatedFrom: null,
+      updatedTo: null,
+    });
+  });
+
+  test('reads comma-separated status and product lists', async () => {
+    const query = await parseOk('status=confirmed,%20failed&product_id=PROD-001,,PROD-002&user_id=u1&correlation_id=c1');
+
+    expect(query.filters.statuses).toEqual(['confirmed', 'failed']);
+    expect(query.filters.productIds).toEqual(['PROD-001', 'PROD-002']);
+    expect(query.filters.userId).toBe('u1');
+    expect(query.filters.correlationId).toBe('c1');
+  });
+
+  test('treats status=all as no status filter', async () => {
+    expect((await parseOk('status=all')).filters.statuses).toBeNull();
+  });
+
+  test('rejects unknown statuses', async () => {
+    expect(await parseError('status=confirmed,shipped')).toStartWith('status must be a comma-separated list of');
+  });
+
+  test('reads ISO-8601 ranges and rejects bad or inverted ones', async () => {
+    const query = await parseOk('created_from=2026-01-01T00:00:00Z&created_to=2026-02-01T00:00:00Z');
+    expect(query.filters.createdFrom).toEqual(new Date('2026-01-01T00:00:00Z'));
+    expect(query.filters.createdTo).toEqual(new Date('2026-02-01T00:00:00Z'));
+
+    expect(await parseError('updated_to=yesterday')).toBe('updated_to must be an ISO-8601 timestamp');
+    expect(await parseError('created_from=2026-02-01&created_to=2026-01-01')).toBe('created_from must be before created_to');
+  });
+
+  test('accepts limits from 1 to 200 only', async () => {
+    expect((await parseOk('limit=1')).limit).toBe(1);
+    expect((await parseOk('limit=200')).limit).toBe(200);
+
+    for (const limit of ['0', '201', '-5', 'abc', '1e3', '2.5']) {
+      expect(await parseError(`limit=${limit}`)).toBe('limit must be an integer from 1 to 200');
+    }
+  });
+
+  test('accepts only non-negative integer offsets', async () => {
+    expect((await parseOk('offset=40')).offset).toBe(40);
+
+    for (const offset of ['-1', 'ten', '1e9']) {
+      expect(await parseError(`offset=${offset}`)).toBe('offset must be a non-negative integer');
+    }
+  });
+
+  test('rejects unknown sorts', async () => {
+    expect(await parseError('sort=status')).toStartWith('sort must be one of');
+  });
+
+  test('decodes a cursor of the same sort', async () => {
+    const query = await parseOk(`sort=updated_at&cursor=${cursor('updated_at', '2026-01-01 09:30:00.123456', 'o-1')}`);
+    expect(query.cursor).toEqual({ sort: 'updated_at', key: '2026-01-01 09:30:00.123456', order_id: 'o-1' });
+  });
+
+  test('rejects cursors that are malformed, from another sort, or combined with offset', async () => {
+    const valid = cursor('-created_at', '2026-01-01 09:30:00', 'o-1');
+
+    expect(await parseError('cursor=not-a-cursor')).toBe('cursor must be a next_cursor from this listing');
+    expect(await parseError(`cursor=${cursor('-created_at', "2026-01-01'; DROP TABLE orders", 'o-1')}`))
+      .toBe('cursor must be a next_cursor from this listing');
+    expect(await parseError(`sort=created_at&cursor=${valid}`)).toBe('cursor belongs to sort=-created_at');
+    expect(await parseError(`offset=10&cursor=${valid}`)).toBe('cursor and offset cannot be combined');
+  });
+});
+
+describe('parseOrderSort', () => {
+  test('falls back to the given default', async () => {
+    let sort: ReturnType<typeof parseOrderSort> | undefined;
+    const app = new Hono();
+    app.get('/', (c) => {
+      sort = parseOrderSort(c, 'created_at');
+      return c.body(null, 204);
+    });
+
+    await app.request('/');
+    expect(sort).toEqual({ name: 'created_at', field: 'created_at', direction: 'asc' });
+  });
+});
@@ -0,0 +1,244 @@
+import type { Context } from 'hono';
+import type { PendingQuery, Row } from 'postgres';
+import { sql } from '../db';
+import { ORDER_STATUSES, type OrderStatus } from './order-status';
+import { parseUserId } from './order-helpers';
+
+export interface OrderFilters {
+  userId: string | null;
+  anonymousOnly: boolean; // Only orders without a user - what an anonymous caller may see
+  statuses: OrderStatus[] | null;
+  productIds: string[] | null; // Orders with a line for any of these products
+  correlationId: string | null;
+  createdFrom: Date | null; // from is inclusive, to exclusive
+  createdTo: Date | null;
+  updatedFrom: Date | null;
+  updatedTo: Date | null;
+}
+
+export interface OrderSort {
+  name: string; // As given in ?sort=, e.g. -created_at
+  field: 'created_at' | 'updated_at';
+  direction: 'asc' | 'desc';
+}
+
+// Position after the last order of a page. The sort key is Postgres' own text form,
+// so no precision is lost to JavaScript dates.
+interface OrderCursor {
+  sort: string;
+  key: string;
+  order_id: string;
+}
+
+export interface OrderListQuery {
+  filters: OrderFilters;
+  sort: OrderSort;
+  limit: number;
+  offset: number;
+  cursor: OrderCursor | null;
+}
+
+export interface OrderPage {
+  orders: Row[];
+  total: number; // Orders matching the filters, across all pages
+  next_cursor: string | null; // null on the last page
+}
+
+const SORTS: OrderSort[] = [
+  { name: '-created_at', field: 'created_at', direction: 'desc' },
+  { name: 'created_at', field: 'created_at', direction: 'asc' },
+  { name: '-updated_at', field: 'updated_at', direction: 'desc' },
+  { name: 'updated_at', field: 'updated_at', direction: 'asc' },
+];
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// created_at::text / updated_at::text, as stored in a cursor
+const SORT_KEY_PATTERN = /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}(\.\d{1,6})?$/;
+
+/**
+ * Filters shared by the order listings: user_id, status, product_id (comma-separated lists),
+ * correlation_id, and created_from/created_to/updated_from/updated_to (ISO-8601)
+ */
+export function parseOrderFilters(c: Context): OrderFilters | { error: string } {
+  const statusParam = c.req.query('status');
+  // 'all' is kept for clients written before status lists
+  const statuses = statusParam === 'all' ? null : parseListParam(statusParam);
+  if (statuses && statuses.some((status) => !ORDER_STATUSES.includes(status as OrderStatus))) {
+    return { error: `status must be a comma-separated list of ${ORDER_STATUSES.join(', ')}` };
+  }
+
+  const user = parseUserId(c.req.query('user_id'));
+  if ('error' in user) {
+    return user;
+  }
+
+  const ranges: Record<string, Date | null> = {};
+  for (const name of ['created_from', 'created_to', 'updated_from', 'updated_to']) {
+    const value = c.req.query(name);
+    const date = value ? new Date(value) : null;
+    if (date && isNaN(date.getTime())) {
+      return { error: `${name} must be an ISO-8601 timestamp` };
+    }
+    ranges[name] = date;
+  }
+
+  for (const prefix of ['created', 'updated']) {
+    const from = ranges[`${prefix}_from`];
+    const to = ranges[`${prefix}_to`];
+    if (from && to && from >= to) {
+      return { error: `${prefix}_from must be before ${prefix}_to` };
+    }
+  }
+
+  return {
+    userId: user.user_id,
+    anonymousOnly: false,
+    statuses: statuses as OrderStatus[] | null,
+    productIds: parseListParam(c.req.query('product_id')),
+    correlationId: c.req.query('correlation_id') || null,
+    createdFrom: ranges.created_from,
+    createdTo: ranges.created_to,
+    updatedFrom: ranges.updated_from,
+    updatedTo: ranges.updated_to,
+  };
+}
+
+export function parseOrderSort(c: Context, defaultSort = '-created_at'): OrderSort | { error: string } {
+  const name = c.req.query('sort') || defaultSort;
+  const sort = SORTS.find((candidate) => candidate.name === name);
+  return sort ?? { error: `sort must be one of ${SORTS.map((candidate) => candidate.name).join(', ')}` };
+}
+
+/**
+ * Filters and sort plus limit (1-200, default 50) and either cursor (from next_cursor)
+ * or offset
+ */
+export function parseOrderListQuery(c: Context): OrderListQuery | { error: string } {
+  const filters = parseOrderFilters(c);
+  if ('error' in filters) return filters;
+
+  const sort = parseOrderSort(c);
+  if ('error' in sort) return sort;
+
+  const limitParam = c.req.query('limit') || String(DEFAULT_LIMIT);
+  const limit = /^\d+$/.test(limitParam) ? parseInt(limitParam) : NaN;
+  if (!(limit >= 1 && limit <= MAX_LIMIT)) {
+    return { error: `limit must be an integer from 1 to ${MAX_LIMIT}` };
+  }
+
+  const offsetParam = c.req.query('offset') || '0';
+  if (!/^\d+$/.test(offsetParam)) {
+    return { error: 'offset must be a non-negative integer' };
+  }
+  const offset = parseInt(offsetParam);
+
+  const cursorParam = c.req.query('cursor');
+  let cursor: OrderCursor | null = null;
+  if (cursorParam) {
+    if (offset > 0) {
+      return { error: 'cursor and offset cannot be combined' };
+    }
+    cursor = decodeCursor(cursorParam);
+    if (!cursor) {
+      return { error: 'cursor must be a next_cursor from this listing' };
+    }
+    if (cursor.sort !== sort.name) {
+      return { error: `cursor belongs to sort=${cursor.sort}` };
+    }
+  }
+
+  return { filters, sort, limit, offset, cursor };
+}
+
+/**
+ * SQL condition for the filters, over an orders table aliased "o"
+ */
+export function orderFilterCondition(filters: OrderFilters): PendingQuery<Row[]> {
+  const conditions: PendingQuery<Row[]>[] = [];
+
+  if (filters.userId) conditions.push(sql`o.user_id = ${filters.userId}`);
+  if (filters.anonymousOnly) conditions.push(sql`o.user_id IS NULL`);
+  if (filters.statuses) conditions.push(sql`o.status IN ${sql(filters.statuses)}`);
+  if (filters.correlationId) conditions.push(sql`o.correlation_id = ${filters.correlationId}`);
+  if (filters.createdFrom) conditions.push(sql`o.created_at >= ${filters.createdFrom}`);
+  if (filters.createdTo) conditions.push(sql`o.created_at < ${filters.createdTo}`);
+  if (filters.updatedFrom) conditions.push(sql`o.updated_at >= ${filters.updatedFrom}`);
+  if (filters.updatedTo) conditions.push(sql`o.updated_at < ${filters.updatedTo}`);
+  if (filters.productIds) {
+    // The single-product column covers orders from before order_items that were not backfilled
+    conditions.push(sql`(EXISTS (
+      SELECT 1 FROM order_items i WHERE i.order_id = o.order_id AND i.product_id IN ${sql(filters.productIds)}
+    ) OR o.product_id IN ${sql(filters.productIds)})`);
+  }
+
+  return conditions.reduce((combined, condition) => sql`${combined} AND ${condition}`, sql`TRUE`);
+}
+
+/**
+ * ORDER BY for a sort, with order_id breaking ties so pages never overlap
+ */
+export function orderSortClause(sort: OrderSort): PendingQuery<Row[]> {
+  const direction = sort.direction === 'desc' ? sql`DESC` : sql`ASC`;
+  return sql`ORDER BY ${sql('o.' + sort.field)} ${direction}, o.order_id ${direction}`;
+}
+
+/**
+ * One page of orders, with the total across all pages
+ */
+export async function listOrders(query: OrderListQuery): Promise<OrderPage> {
+  const { filters, sort, limit, offset, cursor } = query;
+  const where = orderFilterCondition(filters);
+  const sortColumn = sql('o.' + sort.field);
+
+  // Keyset: strictly after the cursor in sort order
+  const after = cursor
+    ? sql`AND (${sortColumn}, o.order_id) ${sort.direction === 'desc' ? sql`<` : sql`>`} (${cursor.key}::timestamp, ${cursor.order_id})`
+    : sql``;
+
+  // One extra row tells whether there is a next page
+  const rows = await sql`
+    SELECT o.order_id, o.user_id, o.product_id, o.quantity, o.status, o.created_at as placed_at, o.updated_at,
+      o.correlation_id, o.error_message, ${sortColumn}::text AS sort_key
+    FROM orders o
+    WHERE ${where} ${after}
+    ${orderSortClause(sort)}
+    LIMIT ${limit + 1} OFFSET ${offset}
+  `;
+
+  const totalResult = await sql`SELECT COUNT(*) as count FROM orders o WHERE ${where}`;
+
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+
+  return {
+    orders: page.map(({ sort_key: _sortKey, ...order }) => order),
+    total: parseInt(totalResult[0].count),
+    next_cursor: rows.length > limit
+      ? encodeCursor({ sort: sort.name, key: last.sort_key, order_id: last.order_id })
+      : null,
+  };
+}
+
+function encodeCursor(cursor: OrderCursor): string {
+  return Buffer.from(JSON.stringify([cursor.sort, cursor.key, cursor.order_id])).toString('base64url');
+}
+
+function decodeCursor(value: string): OrderCursor | null {
+  try {
+    const [sort, key, orderId] = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (typeof sort !== 'string' || typeof key !== 'string' || typeof orderId !== 'string' || !SORT_KEY_PATTERN.test(key)) {
+      return null;
+    }
+    return { sort, key, order_id: orderId };
+  } catch {
+    return null;
+  }
+}
+
+function parseListParam(value: string | undefined): string[] | null {
+  if (!value) return null;
+  const list = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return list.length > 0 ? list : null;
+}
@@ -0,0 +1,72 @@
+import { sql } from '../db';
+import { config } from '../config';
+import { logger } from './logger';
+
+export type RequestOutcome = 'accepted' | 'confirmed' | 'failed' | 'undecided' | 'cancelled' | 'unavailable' | 'error';
+
+export interface OrderRequestSample {
+  order_id: string;
+  outcome: RequestOutcome;
+  replay: boolean;
+  latency_ms: number;
+}
+
+/**
+ * Record the latency and outcome of one POST /api/orders request.
+ * Fire-and-forget: a failed write never affects the order itself.
+ */
+export function recordOrderRequest(sample: OrderRequestSample): void {
+  sql`
+    INSERT INTO order_request_log (order_id, outcome, replay, latency_ms)
+    VALUES (${sample.order_id}, ${sample.outcome}, ${sample.replay}, ${Math.round(sample.latency_ms)})
+  `.catch((error) => {
+    logger.error('Failed to record order request stats', { order_id: sample.order_id, error });
+  });
+}
+
+/**
+ * Recompute the most recent minute buckets of order_stats from order_request_log.
+ * Upserts, so running it repeatedly (or from several instances) is safe.
+ */
+export async function aggregateOrderStats(): Promise<number> {
+  const result = await sql`
+    INSERT INTO order_stats (
+      minute_bucket, total_requests, total_orders, confirmed_orders, failed_orders, undecided_orders,
+      timeout_errors, avg_response_time_ms, p50_response_time_ms, p95_response_time_ms, p99_response_time_ms
+    )
+    SELECT
+      date_trunc('minute', created_at) AS minute_bucket,
+      COUNT(*),
+      COUNT(*) FILTER (WHERE NOT replay AND outcome IN ('accepted', 'confirmed', 'failed', 'undecided')),
+      COUNT(*) FILTER (WHERE NOT replay AND outcome = 'confirmed'),
+      COUNT(*) FILTER (WHERE NOT replay AND outcome = 'failed'),
+      COUNT(*) FILTER (WHERE NOT replay AND outcome = 'undecided'),
+      COUNT(*) FILTER (WHERE outcome = 'undecided'),
+      ROUND(AVG(latency_ms))::int,
+      ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY latency_ms))::int,
+      ROUND(percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms))::int,
+      ROUND(percentile_cont(0.99) WITHIN GROUP (ORDER BY latency_ms))::int
+    FROM order_request_log
+    WHERE created_at >= date_trunc('minute', NOW()) - (${config.stats.lookbackMinutes}::int * INTERVAL '1 minute')
+    GROUP BY 1
+    ON CONFLICT (minute_bucket) DO UPDATE SET
+      total_requests = EXCLUDED.total_requests,
+      total_orders = EXCLUDED.total_orders,
+      confirmed_orders = EXCLUDED.confirmed_orders,
+      failed_orders = EXCLUDED.failed_orders,
+      undecided_orders = EXCLUDED.undecided_orders,
+      timeout_errors = EXCLUDED.timeout_errors,
+      avg_response_time_ms = EXCLUDED.avg_response_time_ms,
+      p50_response_time_ms = EXCLUDED.p50_response_time_ms,
+      p95_response_time_ms = EXCLUDED.p95_response_time_ms,
+      p99_response_time_ms = EXCLUDED.p99_response_time_ms,
+      updated_at = NOW()
+  `;
+
+  await sql`
+    DELETE FROM order_request_log
+    WHERE created_at < NOW() - (${config.stats.rawRetentionHours}::int * INTERVAL '1 hour')
+  `;
+
+  return result.count;
+}
@@ -1,76 +1,134 @@
-import { getRedisClient } from './redis-client';
+import { getRedisClient, type RedisClient } from './redis-client';
+import { withSpan } from './tracing';
+import { logger } from './logger';
 
 export interface OrderStatusEvent {
   order_id: string;
-  status: 'confirmed' | 'failed';
+  status: 'confirmed' | 'failed' | 'cancelled';
   error_message?: string;
   timestamp: string;
 }
 
 const ORDER_STATUS_CHANNEL_PREFIX = 'order:status:';
 
+// In-process listeners per order_id, fed by the one pattern subscription below
+const listeners = new Map<string, Set<(event: OrderStatusEvent) => void>>();
+let subscriberReady: Promise<RedisClient> | null = null;
+
 /**
- * Publish order status change event to Redis pub/sub
+ * Publish order status change event to Redis pub/sub. Called by the outbox relay,
+ * which retries if this throws.
  */
 export async function publishOrderStatusChange(
   orderId: string,
-  status: 'confirmed' | 'failed',
+  status: 'confirmed' | 'failed' | 'cancelled',
   errorMessage?: string
 ): Promise<void> {
-  try {
-    const redis = await getRedisClient();
-    
-    const event: OrderStatusEvent = {
-      order_id: orderId,
-      status,
-      error_message: errorMessage,
-      timestamp: new Date().toISOString(),
-    };
-
-    const channel = `${ORDER_STATUS_CHANNEL_PREFIX}${orderId}`;
-    await redis.publish(channel, JSON.stringify(event));
-
-    console.log(`📢 Published status change for order ${orderId}: ${status}`);
-  } catch (error) {
-    console.error('Failed to publish order status change:', error);
-    // Don't throw - we don't want to fail the order update if Redis pub/sub fails
-  }
+  const redis = await getRedisClient();
+
+  const event: OrderStatusEvent = {
+    order_id: orderId,
+    status,
+    error_message: errorMessage,
+    timestamp: new Date().toISOString(),
+  };
+
+  const channel = `${ORDER_STATUS_CHANNEL_PREFIX}${orderId}`;
+  await withSpan('redis.publish_status', { 'db.system': 'redis', 'order.id': orderId, 'order.status': status }, () =>
+    redis.publish(channel, JSON.stringify(event))
+  );
+
+  logger.info('Published status change', { order_id: orderId, status });
 }
 
 /**
- * Subscribe to order status changes for a specific order
- * Returns an async iterator that yields status events
+ * Listen for status changes of one order. All listeners in the process share a single
+ * pattern subscription, so SSE clients never open Redis connections of their own.
+ * Returns a function that removes the listener.
  */
 export async function subscribeToOrderStatus(
   orderId: string,
-  onMessage: (event: OrderStatusEvent) => void,
-  onError?: (error: Error) => void
-): Promise<() => Promise<void>> {
-  const redis = await getRedisClient();
-  const subscriber = redis.duplicate();
-  
-  await subscriber.connect();
+  onMessage: (event: OrderStatusEvent) => void
+): Promise<() => void> {
+  await ensureSubscriber();
 
-  const channel = `${ORDER_STATUS_CHANNEL_PREFIX}${orderId}`;
+  let orderListeners = listeners.get(orderId);
+  if (!orderListeners) {
+    orderListeners = new Set();
+    listeners.set(orderId, orderListeners);
+  }
+  orderListeners.add(onMessage);
 
-  await subscriber.subscribe(channel, (message) => {
-    try {
-      const event: OrderStatusEvent = JSON.parse(message);
-      onMessage(event);
-    } catch (error) {
-      console.error('Failed to parse order status event:', error);
-      if (onError) {
-        onError(error as Error);
-      }
-    }
-  });
+  logger.debug('Subscribed to order status updates', { order_id: orderId, listeners: orderListeners.size });
+
+  let removed = false;
+  return () => {
+    if (removed) return;
+    removed = true;
 
-  console.log(`👂 Subscribed to status updates for order ${orderId}`);
+    const current = listeners.get(orderId);
+    current?.delete(onMessage);
+    if (current && current.size === 0) {
+      listeners.delete(orderId);
+    }
 
-  // Return cleanup function
-  return async () => {
-    await subscriber.unsubscribe(channel);
-    await subscriber.quit();
-    console.log(`👋 Unsubscribed from order ${orderId}`);
+    logger.debug('Unsubscribed from order status updates', { order_id: orderId });
   };
 }
+
+/**
+ * Number of registered listeners across all orders
+ */
+export function getOrderStatusListenerCount(): number {
+  let count = 0;
+  for (const orderListeners of listeners.values()) {
+    count += orderListeners.size;
+  }
+  return count;
+}
+
+// Opens the shared subscriber on first use; a failed attempt is retried by the next caller
+function ensureSubscriber(): Promise<RedisClient> {
+  if (!subscriberReady) {
+    subscriberReady = (async () => {
+      const redis = await getRedisClient();
+      const subscriber = redis.duplicate();
+      subscriber.on('error', (error) => logger.error('Order status subscriber error', { error }));
+
+      await subscriber.connect();
+      // node-redis re-issues the subscription after a reconnect
+      await subscriber.pSubscribe(`${ORDER_STATUS_CHANNEL_PREFIX}*`, dispatch);
+
+      logger.info('Order status subscriber connected', { pattern: `${ORDER_STATUS_CHANNEL_PREFIX}*` });
+      return subscriber;
+    })().catch((error) => {
+      subscriberReady = null;
+      throw error;
+    });
+  }
+
+  return subscriberReady;
+}
+
+function dispatch(message: string, channel: string): void {
+  const orderId = channel.slice(ORDER_STATUS_CHANNEL_PREFIX.length);
+  const orderListeners = listeners.get(orderId);
+  if (!orderListeners) return;
+
+  let event: OrderStatusEvent;
+  try {
+    event = JSON.parse(message);
+  } catch (error) {
+    logger.error('Failed to parse order status event', { order_id: orderId, error });
+    return;
+  }
+
+  // Copy - listeners usually unsubscribe from inside the callback
+  for (const listener of [...orderListeners]) {
+    try {
+      listener(event);
+    } catch (error) {
+      logger.error('Order status listener failed', { order_id: orderId, error });
+    }
+  }
+}
@@ -0,0 +1,116 @@
+import type { TransactionSql } from 'postgres';
+import { sql } from '../db';
+import { withSpan } from './tracing';
+import { recordOrderEvent } from './order-outbox';
+
+export type OrderStatus = 'pending' | 'confirmed' | 'failed' | 'undecided' | 'cancelled';
+
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'failed', 'undecided', 'cancelled'];
+
+// Who moved the order: the HTTP API, a background worker/sweeper, or an operator
+export type StatusActor = 'api' | 'worker' | 'admin';
+
+export interface StatusChange {
+  order_id: string;
+  from: OrderStatus | null; // null when the order is first created
+  to: OrderStatus;
+  actor: StatusActor;
+  attempt?: number | null;
+  error_message?: string | null;
+}
+
+// Statuses an order may be created in - pending only when accepted asynchronously
+const INITIAL_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'failed', 'undecided'];
+
+// Statuses whose inventory outcome is not known yet
+export const UNRESOLVED_STATUSES: OrderStatus[] = ['pending', 'undecided'];
+
+// Allowed moves - failed and cancelled are terminal
+const TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['confirmed', 'failed', 'undecided'],
+  undecided: ['confirmed', 'failed'],
+  confirmed: ['cancelled'],
+  failed: [],
+  cancelled: [],
+};
+
+export function canTransition(from: OrderStatus | null, to: OrderStatus): boolean {
+  return from === null ? INITIAL_STATUSES.includes(to) : TRANSITIONS[from].includes(to);
+}
+
+function assertTransition(from: OrderStatus | null, to: OrderStatus): void {
+  if (!canTransition(from, to)) {
+    const error = new Error(`Invalid status transition: ${from ?? 'new'} -> ${to}`);
+    error.name = 'InvalidTransitionError';
+    throw error;
+  }
+}
+
+/**
+ * Append a row to order_status_history and queue the status event in the outbox.
+ * Must run in the transaction that changes the status.
+ */
+export async function recordStatusChange(tx: TransactionSql, change: StatusChange): Promise<void> {
+  assertTransition(change.from, change.to);
+
+  await tx`
+    INSERT INTO order_status_history (order_id, from_status, to_status, actor, attempt, error_message)
+    VALUES (
+      ${change.order_id}, ${change.from}, ${change.to}, ${change.actor},
+      ${change.attempt ?? null}, ${change.error_message ?? null}
+    )
+  `;
+
+  await recordOrderEvent(tx, {
+    type: change.to,
+    order_id: change.order_id,
+    status: change.to,
+    error_message: change.error_message,
+  });
+}
+
+/**
+ * Move an order from `from` to `to` and record it in the history, atomically.
+ * Returns false if the order was no longer in `from` (another path got there first).
+ * Throws InvalidTransitionError for moves the state machine does not allow.
+ */
+export async function transitionOrderStatus(
+  change: StatusChange & { from: OrderStatus },
+  tx?: TransactionSql
+): Promise<boolean> {
+  assertTransition(change.from, change.to);
+
+  const apply = async (tx: TransactionSql): Promise<boolean> => {
+    const result = await tx`
+      UPDATE orders
+      SET status = ${change.to}, error_message = ${change.error_message ?? null}, updated_at = NOW()
+      WHERE order_id = ${change.order_id} AND status = ${change.from}
+    `;
+
+    if (result.count === 0) {
+      return false;
+    }
+
+    await recordStatusChange(tx, change);
+    return true;
+  };
+
+  return withSpan('db.transition_status', {
+    'db.system': 'postgresql',
+    'order.id': change.order_id,
+    'order.status.from': change.from,
+    'order.status.to': change.to,
+  }, () => tx ? apply(tx) : sql.begin(apply) as Promise<boolean>);
+}
+
+/**
+ * Status timeline of an order, oldest first
+ */
+export async function getStatusHistory(orderId: string) {
+  return sql`
+    SELECT history_id, from_status, to_status, actor, attempt, error_message, created_at
+    FROM order_status_history
+    WHERE order_id = ${orderId}
+    ORDER BY created_at ASC, history_id ASC
+  `;
+}
@@ -0,0 +1,191 @@
+import { createHash } from 'crypto';
+import type { Context, Next } from 'hono';
+import { getConnInfo } from 'hono/bun';
+import { getRedisClient, isRedisReady } from './redis-client';
+import { rateLimitDecisions } from './metrics';
+import { logger } from './logger';
+import { config } from '../config';
+
+export type RateLimitPolicyName = keyof typeof config.rateLimit.policies;
+
+interface Bucket {
+  capacity: number; // burst size
+  refillPerSecond: number;
+}
+
+interface RateLimitDecision {
+  allowed: boolean;
+  remaining: number;
+  resetSeconds: number; // until the bucket is full again
+  retryAfterSeconds: number; // until the next request would be allowed
+}
+
+// Refill and take a token in one step. Uses the Redis clock so every instance agrees.
+// Returns { allowed, tokens left } - tokens as a string, Lua numbers are truncated otherwise.
+const TAKE_TOKEN_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local refill_per_ms = tonumber(ARGV[2])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+
+local bucket = redis.call('HMGET', KEYS[1], 'tokens', 'updated_at')
+local tokens = tonumber(bucket[1]) or capacity
+local updated_at = tonumber(bucket[2]) or now
+tokens = math.min(capacity, tokens + math.max(0, now - updated_at) * refill_per_ms)
+
+local allowed = 0
+if tokens >= 1 then
+  tokens = tokens - 1
+  allowed = 1
+end
+
+redis.call('HSET', KEYS[1], 'tokens', tostring(tokens), 'updated_at', now)
+redis.call('PEXPIRE', KEYS[1], math.ceil((capacity - tokens) / refill_per_ms) + 1000)
+return { allowed, tostring(tokens) }
+`;
+
+const RATE_LIMIT_KEY_PREFIX = 'ratelimit:';
+
+const apiKeyTiers = parseApiKeys(config.rateLimit.apiKeys);
+const policies = Object.fromEntries(
+  Object.entries(config.rateLimit.policies).map(([name, spec]) => [name, parsePolicy(name, spec)])
+) as Record<RateLimitPolicyName, Map<string, Bucket>>;
+
+// Requests a limiter has already counted - the first matching policy is the only one applied
+const limitedRequests = new WeakSet<Request>();
+
+/**
+ * Token-bucket limiter per client for one route policy. Sets RateLimit-* headers and
+ * answers 429 RATE_LIMITED once the bucket is empty. Lets requests through if Redis is down.
+ */
+export function rateLimit(policyName: RateLimitPolicyName) {
+  return async (c: Context, next: Next) => {
+    if (!config.rateLimit.enabled || limitedRequests.has(c.req.raw)) {
+      return next();
+    }
+    limitedRequests.add(c.req.raw);
+
+    const client = identifyClient(c);
+    const bucket = policies[policyName].get(client.tier);
+    if (!bucket) {
+      return next();
+    }
+
+    // Never hold a request on a Redis reconnect
+    if (!isRedisReady()) {
+      rateLimitDecisions.inc({ policy: policyName, tier: client.tier, outcome: 'bypassed' });
+      return next();
+    }
+
+    let decision: RateLimitDecision;
+    try {
+      decision = await takeToken(`${RATE_LIMIT_KEY_PREFIX}${policyName}:${client.id}`, bucket);
+    } catch (error) {
+      logger.warn('Rate limiter unavailable, request not limited', { policy: policyName, error });
+      rateLimitDecisions.inc({ policy: policyName, tier: client.tier, outcome: 'bypassed' });
+      return next();
+    }
+
+    c.header('RateLimit-Limit', String(bucket.capacity));
+    c.header('RateLimit-Remaining', String(decision.remaining));
+    c.header('RateLimit-Reset', String(decision.resetSeconds));
+    c.header('RateLimit-Policy', `${bucket.capacity};w=${Math.ceil(bucket.capacity / bucket.refillPerSecond)}`);
+
+    if (!decision.allowed) {
+      rateLimitDecisions.inc({ policy: policyName, tier: client.tier, outcome: 'limited' });
+      logger.info('Request rate limited', { policy: policyName, tier: client.tier, client: client.id });
+
+      c.header('Retry-After', String(decision.retryAfterSeconds));
+      return c.json({
+        error: {
+          code: 'RATE_LIMITED',
+          message: `Too many requests, retry in ${decision.retryAfterSeconds}s`,
+        },
+      }, 429);
+    }
+
+    rateLimitDecisions.inc({ policy: policyName, tier: client.tier, outcome: 'allowed' });
+    await next();
+  };
+}
+
+async function takeToken(key: string, bucket: Bucket): Promise<RateLimitDecision> {
+  const redis = await getRedisClient();
+
+  const [allowed, tokensLeft] = (await redis.eval(TAKE_TOKEN_SCRIPT, {
+    keys: [key],
+    arguments: [String(bucket.capacity), String(bucket.refillPerSecond / 1000)],
+  })) as [number, string];
+
+  const tokens = parseFloat(tokensLeft);
+
+  return {
+    allowed: allowed === 1,
+    remaining: Math.floor(tokens),
+    resetSeconds: Math.ceil((bucket.capacity - tokens) / bucket.refillPerSecond),
+    retryAfterSeconds: Math.max(1, Math.ceil((1 - tokens) / bucket.refillPerSecond)),
+  };
+}
+
+/**
+ * A listed API key gets its tier and its own bucket; anyone else shares the
+ * "anonymous" bucket of their IP. Keys are hashed before they reach Redis.
+ */
+function identifyClient(c: Context): { id: string; tier: string } {
+  const apiKey = c.req.header('X-API-Key');
+  const tier = apiKey ? apiKeyTiers.get(apiKey) : undefined;
+
+  if (apiKey && tier) {
+    return { id: `key:${createHash('sha256').update(apiKey).digest('hex').slice(0, 16)}`, tier };
+  }
+
+  return { id: `ip:${clientIp(c)}`, tier: 'anonymous' };
+}
+
+function clientIp(c: Context): string {
+  if (config.rateLimit.trustProxy) {
+    const forwarded = c.req.header('X-Forwarded-For')?.split(',')[0].trim();
+    if (forwarded) return forwarded;
+  }
+
+  try {
+    return getConnInfo(c).remote.address ?? 'unknown';
+  } catch {
+    // Not served by Bun (e.g. app.request in scripts)
+    return 'unknown';
+  }
+}
+
+function parseApiKeys(spec: string): Map<string, string> {
+  const tiers = new Map<string, string>();
+
+  for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.lastIndexOf(':');
+    if (separator <= 0 || separator === entry.length - 1) {
+      logger.warn('Ignoring malformed RATE_LIMIT_API_KEYS entry (expected <key>:<tier>)');
+      continue;
+    }
+    tiers.set(entry.slice(0, separator), entry.slice(separator + 1));
+  }
+
+  return tiers;
+}
+
+// "<tier>=<burst>/<refill per second>,..."
+function parsePolicy(name: string, spec: string): Map<string, Bucket> {
+  const buckets = new Map<string, Bucket>();
+
+  for (const entry of spec.split(',').map((part) => part.trim()).filter(Boolean)) {
+    const match = /^([\w-]+)=(\d+)\/(\d+(?:\.\d+)?)$/.exec(entry);
+    const capacity = match ? parseInt(match[2]) : 0;
+    const refillPerSecond = match ? parseFloat(match[3]) : 0;
+
+    if (!match || capacity <= 0 || refillPerSecond <= 0) {
+      logger.warn('Ignoring malformed rate limit policy entry', { policy: name, entry });
+      continue;
+    }
+    buckets.set(match[1], { capacity, refillPerSecond });
+  }
+
+  return buckets;
+}
@@ -1,5 +1,6 @@
 import { createClient } from 'redis';
 import { config } from '../config';
+import { logger } from './logger';
 
 export type RedisClient = ReturnType<typeof createClient>;
 
@@ -17,13 +18,26 @@ export async function getRedisClient(): Promise<RedisClient> {
     },
   });
 
-  redisClient.on('error', (err) => console.error('Redis Client Error:', err));
-  redisClient.on('connect', () => console.log('Redis Client Connected'));
+  redisClient.on('error', (error) => logger.error('Redis client error', { error }));
+  redisClient.on('connect', () => logger.info('Redis client connected'));
 
-  await redisClient.connect();
+  try {
+    await redisClient.connect();
+  } catch (error) {
+    // Let the next caller try again instead of handing out a dead client
+    redisClient = null;
+    throw error;
+  }
   return redisClient;
 }
 
+/**
+ * Whether Redis is connected right now - never waits on a reconnect
+ */
+export function isRedisReady(): boolean {
+  return redisClient?.isReady ?? false;
+}
+
 export async function closeRedisClient(): Promise<void> {
   if (redisClient) {
     await redisClient.quit();
@@ -1,61 +1,279 @@
 import { getRedisClient } from './redis-client';
 import { config } from '../config';
+import type { OrderItem } from './order-helpers';
+import { withSpan, currentTraceparent } from './tracing';
+import { logger, getLogContext } from './logger';
 
 export interface RetryEvent {
   order_id: string;
-  product_id: string;
-  quantity: number;
+  items: OrderItem[];
   attempt: number;
   max_attempts: number;
   scheduled_at: number; // Unix timestamp in ms
+  traceparent?: string; // Trace of the request that made the order undecided
+  correlation_id?: string; // Carried into the worker's log context
 }
 
+export interface DeadLetter {
+  event: RetryEvent;
+  reason: string;
+  dead_lettered_at: string;
+}
+
+export interface RetryQueueSnapshot {
+  queued: RetryEvent[];
+  processing: Array<RetryEvent & { lease_expires_at: number }>;
+  dead_letters: DeadLetter[];
+}
+
+// Due times, keyed by order_id so re-publishing an order never duplicates it
 const RETRY_QUEUE_KEY = 'order:retry:queue';
+// Event payloads, keyed by order_id
+const RETRY_EVENTS_KEY = 'order:retry:events';
+// Claimed events, scored by lease expiry - unacknowledged ones go back to the queue
+const RETRY_PROCESSING_KEY = 'order:retry:processing';
+// Events that exhausted max_attempts, keyed by order_id
+const RETRY_DEAD_LETTER_KEY = 'order:retry:dead';
+
+// Reclaim expired leases, then move due events into processing with a fresh lease
+const CLAIM_SCRIPT = `
+local expired = redis.call('ZRANGEBYSCORE', KEYS[2], '-inf', ARGV[1])
+for _, member in ipairs(expired) do
+  redis.call('ZREM', KEYS[2], member)
+  redis.call('ZADD', KEYS[1], 'NX', ARGV[1], member)
+end
+
+local due = redis.call('ZRANGEBYSCORE', KEYS[1], '-inf', ARGV[1], 'LIMIT', 0, tonumber(ARGV[3]))
+local claimed = {}
+for _, member in ipairs(due) do
+  redis.call('ZREM', KEYS[1], member)
+  local payload = redis.call('HGET', KEYS[3], member)
+  -- Older releases stored the whole JSON event as the member
+  if not payload and string.sub(member, 1, 1) == '{' then
+    payload = member
+    member = cjson.decode(member)['order_id']
+    redis.call('HSET', KEYS[3], member, payload)
+  end
+  if payload then
+    redis.call('ZADD', KEYS[2], tonumber(ARGV[1]) + tonumber(ARGV[2]), member)
+    table.insert(claimed, payload)
+  end
+end
+return claimed
+`;
+
+// Drop the lease; keep the payload if the event was re-published while being processed
+const ACK_SCRIPT = `
+redis.call('ZREM', KEYS[2], ARGV[1])
+if not redis.call('ZSCORE', KEYS[1], ARGV[1]) then
+  redis.call('HDEL', KEYS[3], ARGV[1])
+end
+return 1
+`;
+
+/**
+ * Exponential backoff delay shared by the Redis queue and the database sweeper: 5s, 10s, 20s, 40s, 80s
+ */
+export function retryDelayMs(attempt: number): number {
+  return config.worker.initialRetryDelayMs * Math.pow(2, attempt);
+}
+
+/**
+ * Schedule a retry event. Throws if Redis fails - used by the outbox relay, which keeps
+ * the event until it is written.
+ */
+export async function enqueueRetryEvent(
+  event: Omit<RetryEvent, 'scheduled_at'>,
+  options: { delayMs?: number } = {}
+): Promise<void> {
+  const redis = await getRedisClient();
+
+  const delayMs = options.delayMs ?? retryDelayMs(event.attempt);
+  const scheduledAt = Date.now() + delayMs;
+
+  const retryEvent: RetryEvent = {
+    ...event,
+    scheduled_at: scheduledAt,
+    traceparent: event.traceparent ?? currentTraceparent(),
+    correlation_id: event.correlation_id ?? getLogContext().correlation_id,
+  };
 
-export async function publishRetryEvent(event: Omit<RetryEvent, 'scheduled_at'>): Promise<void> {
+  // Payload and schedule are written together; the order_id is the queue member.
+  // A fresh publish supersedes any earlier dead letter for the order.
+  await withSpan('redis.publish_retry_event', { 'db.system': 'redis', 'order.id': event.order_id }, () =>
+    redis
+      .multi()
+      .hSet(RETRY_EVENTS_KEY, event.order_id, JSON.stringify(retryEvent))
+      .zAdd(RETRY_QUEUE_KEY, { score: scheduledAt, value: event.order_id })
+      .hDel(RETRY_DEAD_LETTER_KEY, event.order_id)
+      .exec()
+  );
+
+  logger.info('Published retry event', {
+    order_id: event.order_id,
+    attempt: event.attempt + 1,
+    max_attempts: event.max_attempts,
+    delay_ms: delayMs,
+  });
+}
+
+/**
+ * Schedule a retry event, logging rather than throwing if Redis fails. The worker and
+ * sweeper use this for re-publishes; the database sweeper covers anything lost.
+ */
+export async function publishRetryEvent(
+  event: Omit<RetryEvent, 'scheduled_at'>,
+  options: { delayMs?: number } = {}
+): Promise<void> {
+  try {
+    await enqueueRetryEvent(event, options);
+  } catch (error) {
+    logger.error('Failed to publish retry event', { order_id: event.order_id, error });
+  }
+}
+
+/**
+ * Atomically claim due events. Each claimed event is leased for
+ * config.worker.leaseMs and reappears in the queue unless acknowledged.
+ */
+export async function consumeRetryEvents(): Promise<RetryEvent[]> {
   try {
     const redis = await getRedisClient();
-    
-    // Calculate exponential backoff delay: 5s, 10s, 20s, 40s, 80s
-    const delayMs = config.worker.initialRetryDelayMs * Math.pow(2, event.attempt);
-    const scheduledAt = Date.now() + delayMs;
-
-    const retryEvent: RetryEvent = {
-      ...event,
-      scheduled_at: scheduledAt,
-    };
 
-    // Add to sorted set with scheduled time as score
-    await redis.zAdd(RETRY_QUEUE_KEY, {
-      score: scheduledAt,
-      value: JSON.stringify(retryEvent),
-    });
+    const payloads = (await redis.eval(CLAIM_SCRIPT, {
+      keys: [RETRY_QUEUE_KEY, RETRY_PROCESSING_KEY, RETRY_EVENTS_KEY],
+      arguments: [String(Date.now()), String(config.worker.leaseMs), String(config.worker.claimBatchSize)],
+    })) as string[];
 
-    console.log(`Published retry event for order ${event.order_id}, attempt ${event.attempt + 1}/${event.max_attempts}, scheduled in ${delayMs}ms`);
+    return payloads.map((payload) => JSON.parse(payload));
   } catch (error) {
-    console.error('Failed to publish retry event:', error);
-    // Don't throw - we don't want to fail the order creation if Redis is down
+    logger.error('Failed to consume retry events', { error });
+    return [];
   }
 }
 
-export async function consumeRetryEvents(): Promise<RetryEvent[]> {
+/**
+ * Acknowledge a claimed event once it has been handled (resolved or re-published)
+ */
+export async function ackRetryEvent(orderId: string): Promise<void> {
   try {
     const redis = await getRedisClient();
-    const now = Date.now();
+    await withSpan('redis.ack_retry_event', { 'db.system': 'redis', 'order.id': orderId }, () =>
+      redis.eval(ACK_SCRIPT, {
+        keys: [RETRY_QUEUE_KEY, RETRY_PROCESSING_KEY, RETRY_EVENTS_KEY],
+        arguments: [orderId],
+      })
+    );
+  } catch (error) {
+    // The lease will expire and the event will be processed again
+    logger.error('Failed to acknowledge retry event', { order_id: orderId, error });
+  }
+}
 
-    // Get events that are ready to process (score <= now)
-    const events = await redis.zRangeByScore(RETRY_QUEUE_KEY, 0, now);
+/**
+ * Move an event that exhausted its attempts to the dead-letter key
+ */
+export async function deadLetterRetryEvent(event: RetryEvent, reason: string): Promise<void> {
+  try {
+    const redis = await getRedisClient();
 
-    if (events.length === 0) {
-      return [];
-    }
+    const deadLetter: DeadLetter = {
+      event,
+      reason,
+      dead_lettered_at: new Date().toISOString(),
+    };
 
-    // Remove processed events from the queue
-    await redis.zRemRangeByScore(RETRY_QUEUE_KEY, 0, now);
+    await withSpan('redis.dead_letter_retry_event', { 'db.system': 'redis', 'order.id': event.order_id }, () =>
+      redis
+        .multi()
+        .hSet(RETRY_DEAD_LETTER_KEY, event.order_id, JSON.stringify(deadLetter))
+        .zRem(RETRY_PROCESSING_KEY, event.order_id)
+        .zRem(RETRY_QUEUE_KEY, event.order_id)
+        .hDel(RETRY_EVENTS_KEY, event.order_id)
+        .exec()
+    );
 
-    return events.map((event) => JSON.parse(event));
+    logger.warn('Dead-lettered retry event', { order_id: event.order_id, reason });
   } catch (error) {
-    console.error('Failed to consume retry events:', error);
-    return [];
+    // Leave the lease in place so the event is retried rather than lost
+    logger.error('Failed to dead-letter retry event', { order_id: event.order_id, error });
   }
 }
+
+/**
+ * Remove every trace of an order from the retry queue (used once it is resolved out of band)
+ */
+export async function removeRetryEvent(orderId: string): Promise<void> {
+  const redis = await getRedisClient();
+
+  await withSpan('redis.remove_retry_event', { 'db.system': 'redis', 'order.id': orderId }, () =>
+    redis
+      .multi()
+      .zRem(RETRY_QUEUE_KEY, orderId)
+      .zRem(RETRY_PROCESSING_KEY, orderId)
+      .hDel(RETRY_EVENTS_KEY, orderId)
+      .hDel(RETRY_DEAD_LETTER_KEY, orderId)
+      .exec()
+  );
+}
+
+/**
+ * Read-only view of the retry queue for operators
+ */
+export async function getRetryQueueSnapshot(): Promise<RetryQueueSnapshot> {
+  const redis = await getRedisClient();
+
+  const [queuedIds, processing, payloads, deadLetters] = await Promise.all([
+    redis.zRange(RETRY_QUEUE_KEY, 0, -1),
+    redis.zRangeWithScores(RETRY_PROCESSING_KEY, 0, -1),
+    redis.hGetAll(RETRY_EVENTS_KEY),
+    redis.hGetAll(RETRY_DEAD_LETTER_KEY),
+  ]);
+
+  const parse = (orderId: string): RetryEvent | null =>
+    payloads[orderId] ? JSON.parse(payloads[orderId]) : null;
+
+  return {
+    queued: queuedIds.map(parse).filter((event): event is RetryEvent => event !== null),
+    processing: processing
+      .map(({ value, score }) => {
+        const event = parse(value);
+        return event ? { ...event, lease_expires_at: score } : null;
+      })
+      .filter((event): event is RetryEvent & { lease_expires_at: number } => event !== null),
+    dead_letters: Object.values(deadLetters).map((payload) => JSON.parse(payload) as DeadLetter),
+  };
+}
+
+/**
+ * Where an order currently sits in the retry queue, or null if it is not there at all
+ */
+export async function getRetryEventState(orderId: string): Promise<'queued' | 'processing' | 'dead_lettered' | null> {
+  const redis = await getRedisClient();
+
+  const [processing, queued, deadLettered] = await Promise.all([
+    redis.zScore(RETRY_PROCESSING_KEY, orderId),
+    redis.zScore(RETRY_QUEUE_KEY, orderId),
+    redis.hExists(RETRY_DEAD_LETTER_KEY, orderId),
+  ]);
+
+  if (processing !== null) return 'processing';
+  if (queued !== null) return 'queued';
+  if (deadLettered) return 'dead_lettered';
+  return null;
+}
+
+/**
+ * Number of retry events in each state, for metrics
+ */
+export async function getRetryQueueDepth(): Promise<{ queued: number; processing: number; dead_lettered: number }> {
+  const redis = await getRedisClient();
+
+  const [queued, processing, deadLettered] = await Promise.all([
+    redis.zCard(RETRY_QUEUE_KEY),
+    redis.zCard(RETRY_PROCESSING_KEY),
+    redis.hLen(RETRY_DEAD_LETTER_KEY),
+  ]);
+
+  return { queued, processing, dead_lettered: deadLettered };
+}
@@ -0,0 +1,160 @@
+// Kept identical in order-service and inventory-service (src/helpers). Each service builds
+// from its own Docker context, so there is no shared package; CI fails if the copies differ.
+import { appendFile } from 'fs/promises';
+import type { Context as HonoContext, Next } from 'hono';
+import {
+  context,
+  propagation,
+  trace,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Context,
+  type Span,
+} from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import { ExportResultCode, W3CTraceContextPropagator, type ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BasicTracerProvider,
+  BatchSpanProcessor,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-base';
+import { config } from '../config';
+
+/**
+ * Sends spans to the OTLP/HTTP collector; batches the collector rejects or
+ * cannot be reached for are appended to a JSON-lines file instead, if one is set.
+ */
+class FallbackSpanExporter implements SpanExporter {
+  private otlp = new OTLPTraceExporter({ url: `${config.tracing.otlpEndpoint}/v1/traces` });
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.otlp.export(spans, (result) => {
+      if (result.code === ExportResultCode.SUCCESS || !config.tracing.fallbackFile) {
+        resultCallback(result);
+        return;
+      }
+
+      writeSpansToFile(spans, config.tracing.fallbackFile)
+        .then(() => resultCallback({ code: ExportResultCode.SUCCESS }))
+        .catch((error) => resultCallback({ code: ExportResultCode.FAILED, error }));
+    });
+  }
+
+  shutdown(): Promise<void> {
+    return this.otlp.shutdown();
+  }
+
+  forceFlush(): Promise<void> {
+    return this.otlp.forceFlush();
+  }
+}
+
+async function writeSpansToFile(spans: ReadableSpan[], file: string): Promise<void> {
+  const lines = spans.map((span) => JSON.stringify({
+    trace_id: span.spanContext().traceId,
+    span_id: span.spanContext().spanId,
+    parent_span_id: span.parentSpanContext?.spanId ?? null,
+    name: span.name,
+    kind: SpanKind[span.kind],
+    service: config.tracing.serviceName,
+    start_time_ms: span.startTime[0] * 1000 + span.startTime[1] / 1e6,
+    duration_ms: span.duration[0] * 1000 + span.duration[1] / 1e6,
+    status: SpanStatusCode[span.status.code],
+    attributes: span.attributes,
+  }));
+
+  await appendFile(file, lines.join('\n') + '\n');
+}
+
+if (config.tracing.enabled) {
+  const provider = new BasicTracerProvider({
+    resource: resourceFromAttributes({ 'service.name': config.tracing.serviceName }),
+    spanProcessors: [new BatchSpanProcessor(new FallbackSpanExporter())],
+  });
+
+  trace.setGlobalTracerProvider(provider);
+  context.setGlobalContextManager(new AsyncLocalStorageContextManager().enable());
+  propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+}
+
+// No-op until the provider above is registered
+const tracer = trace.getTracer(config.tracing.serviceName);
+
+/**
+ * Run `fn` inside a child span of the active trace. Errors are recorded on the span and rethrown.
+ */
+export async function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>,
+  options: { kind?: SpanKind; parent?: Context } = {}
+): Promise<T> {
+  return tracer.startActiveSpan(
+    name,
+    { kind: options.kind ?? SpanKind.INTERNAL, attributes },
+    options.parent ?? context.active(),
+    async (span) => {
+      try {
+        return await fn(span);
+      } catch (error: any) {
+        span.recordException(error);
+        span.setStatus({ code: SpanStatusCode.ERROR, message: error?.message });
+        throw error;
+      } finally {
+        span.end();
+      }
+    }
+  );
+}
+
+/**
+ * Headers carrying the active trace (traceparent/tracestate) for an outgoing call
+ */
+export function traceHeaders(): Record<string, string> {
+  const carrier: Record<string, string> = {};
+  propagation.inject(context.active(), carrier);
+  return carrier;
+}
+
+/**
+ * traceparent of the active span, for messages that outlive the request (e.g. retry events)
+ */
+export function currentTraceparent(): string | undefined {
+  return traceHeaders().traceparent;
+}
+
+/**
+ * Trace context to continue from a stored traceparent
+ */
+export function contextFromTraceparent(traceparent: string | undefined): Context {
+  if (!traceparent) return context.active();
+  return propagation.extract(context.active(), { traceparent });
+}
+
+/**
+ * Server span per request, continuing the caller's traceparent if there is one
+ */
+export async function tracingMiddleware(c: HonoContext, next: Next) {
+  const parent = propagation.extract(context.active(), c.req.header());
+
+  await withSpan(`${c.req.method} ${c.req.path}`, {
+    'http.request.method': c.req.method,
+    'url.path': c.req.path,
+    'request.id': c.req.header('X-Request-ID') || '',
+    'correlation.id': c.req.header('X-Correlation-ID') || '',
+  }, async (span) => {
+    await next();
+
+    // Name by route template so spans group across order ids
+    span.updateName(`${c.req.method} ${c.req.routePath}`);
+    span.setAttribute('http.route', c.req.routePath);
+    span.setAttribute('http.response.status_code', c.res.status);
+    if (c.res.status >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+  }, { kind: SpanKind.SERVER, parent });
+}
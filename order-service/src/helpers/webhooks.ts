@@ -0,0 +1,222 @@
+import { createHmac, randomBytes } from 'crypto';
+import { SpanKind } from '@opentelemetry/api';
+import { sql } from '../db';
+import { config } from '../config';
+import { getOrderItems, type OrderItem } from './order-helpers';
+import type { OrderEventType } from './order-event-stream';
+import type { OrderStatus } from './order-status';
+import { webhookDeliveries } from './metrics';
+import { withSpan, traceHeaders } from './tracing';
+import { logger } from './logger';
+
+export interface WebhookEvent {
+  id: string; // Sent as X-Webhook-Id; the same for every endpoint
+  type: OrderEventType;
+  order_id: string;
+  status: OrderStatus;
+  items?: OrderItem[];
+  error_message?: string;
+}
+
+export interface ClaimedDelivery {
+  delivery_id: string;
+  endpoint_id: number;
+  event_id: string;
+  event_type: string;
+  order_id: string;
+  payload: unknown;
+  attempts: number;
+  url: string;
+  secret: string;
+}
+
+export function generateWebhookSecret(): string {
+  return `whsec_${randomBytes(24).toString('hex')}`;
+}
+
+/**
+ * X-Webhook-Signature value: HMAC-SHA256 over "<timestamp>.<body>", so a captured
+ * request cannot be replayed later with a fresh timestamp
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+/**
+ * Queue a delivery of `event` for every active endpoint subscribed to its type.
+ * Idempotent per event id, so the outbox relay can safely run it again.
+ */
+export async function queueWebhookDeliveries(event: WebhookEvent): Promise<void> {
+  const subscribed = await sql`
+    SELECT 1 FROM webhook_endpoints WHERE active AND ${event.type} = ANY(event_types) LIMIT 1
+  `;
+  if (subscribed.length === 0) return;
+
+  const items = event.items ?? await getOrderItems(event.order_id);
+  const payload = {
+    id: event.id,
+    type: event.type,
+    created_at: new Date().toISOString(),
+    data: {
+      order_id: event.order_id,
+      status: event.status,
+      items,
+      error_message: event.error_message ?? null,
+    },
+  };
+
+  const result = await sql`
+    INSERT INTO webhook_deliveries (endpoint_id, event_id, event_type, order_id, payload)
+    SELECT endpoint_id, ${event.id}, ${event.type}, ${event.order_id}, ${JSON.stringify(payload)}::jsonb
+    FROM webhook_endpoints
+    WHERE active AND ${event.type} = ANY(event_types)
+    ON CONFLICT (endpoint_id, event_id) DO NOTHING
+  `;
+
+  logger.debug('Queued webhook deliveries', {
+    order_id: event.order_id,
+    event_type: event.type,
+    event_id: event.id,
+    endpoints: result.count,
+  });
+}
+
+/**
+ * Claim the oldest pending delivery of each endpoint that is due. Later deliveries
+ * of an endpoint wait behind its head, so a receiver sees events in order and a
+ * failing receiver only holds up its own queue.
+ */
+export async function claimDueDeliveries(): Promise<ClaimedDelivery[]> {
+  return sql<ClaimedDelivery[]>`
+    UPDATE webhook_deliveries d
+    SET next_attempt_at = NOW() + (${config.webhooks.leaseMs}::int * INTERVAL '1 millisecond')
+    FROM webhook_endpoints w
+    WHERE w.endpoint_id = d.endpoint_id
+      AND d.delivery_id IN (
+        SELECT head.delivery_id
+        FROM webhook_deliveries head
+        JOIN webhook_endpoints e ON e.endpoint_id = head.endpoint_id AND e.active
+        WHERE head.status = 'pending'
+          AND head.next_attempt_at <= NOW()
+          AND NOT EXISTS (
+            SELECT 1 FROM webhook_deliveries earlier
+            WHERE earlier.endpoint_id = head.endpoint_id
+              AND earlier.status = 'pending'
+              AND earlier.delivery_id < head.delivery_id
+          )
+        ORDER BY head.delivery_id ASC
+        LIMIT ${config.webhooks.batchSize}
+        FOR UPDATE OF head SKIP LOCKED
+      )
+    RETURNING d.delivery_id, d.endpoint_id, d.event_id, d.event_type, d.order_id, d.payload, d.attempts,
+      w.url, w.secret
+  `;
+}
+
+/**
+ * Backoff before attempt `attempt + 1`: initial delay doubled per failed attempt, capped
+ */
+export function webhookRetryDelayMs(attempt: number): number {
+  return Math.min(
+    config.webhooks.initialRetryDelayMs * Math.pow(2, attempt - 1),
+    config.webhooks.maxRetryDelayMs
+  );
+}
+
+/**
+ * POST one claimed delivery and record the attempt. 2xx marks it delivered; anything
+ * else is retried with backoff until config.webhooks.maxAttempts, then marked dead.
+ */
+export async function sendDelivery(delivery: ClaimedDelivery): Promise<void> {
+  const attempt = delivery.attempts + 1;
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const startedAt = Date.now();
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+
+  await withSpan('webhook.deliver', {
+    'order.id': delivery.order_id,
+    'webhook.endpoint_id': delivery.endpoint_id,
+    'webhook.event_type': delivery.event_type,
+    'webhook.attempt': attempt,
+  }, async (span) => {
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          ...traceHeaders(),
+          'Content-Type': 'application/json',
+          'User-Agent': 'order-service-webhooks',
+          'X-Webhook-Id': delivery.event_id,
+          'X-Webhook-Event': delivery.event_type,
+          'X-Webhook-Timestamp': String(timestamp),
+          'X-Webhook-Signature': signWebhookPayload(delivery.secret, timestamp, body),
+        },
+        body,
+        signal: AbortSignal.timeout(config.webhooks.timeoutMs),
+      });
+
+      statusCode = response.status;
+      span.setAttribute('http.response.status_code', response.status);
+      if (!response.ok) {
+        error = `HTTP ${response.status}`;
+      }
+    } catch (e: any) {
+      error = e?.name === 'TimeoutError' ? `Timed out after ${config.webhooks.timeoutMs}ms` : e?.message || 'Request failed';
+    }
+  }, { kind: SpanKind.CLIENT });
+
+  const durationMs = Date.now() - startedAt;
+
+  await sql`
+    INSERT INTO webhook_delivery_attempts (delivery_id, attempt, status_code, error, duration_ms)
+    VALUES (${delivery.delivery_id}, ${attempt}, ${statusCode}, ${error}, ${durationMs})
+  `;
+
+  if (error === null) {
+    await sql`
+      UPDATE webhook_deliveries
+      SET status = 'delivered', attempts = ${attempt}, last_status_code = ${statusCode}, last_error = NULL,
+          delivered_at = NOW(), updated_at = NOW()
+      WHERE delivery_id = ${delivery.delivery_id}
+    `;
+    webhookDeliveries.inc({ outcome: 'delivered' });
+    logger.info('Webhook delivered', { endpoint_id: delivery.endpoint_id, delivery_id: delivery.delivery_id, attempt });
+    return;
+  }
+
+  if (attempt >= config.webhooks.maxAttempts) {
+    await sql`
+      UPDATE webhook_deliveries
+      SET status = 'dead', attempts = ${attempt}, last_status_code = ${statusCode}, last_error = ${error},
+          updated_at = NOW()
+      WHERE delivery_id = ${delivery.delivery_id}
+    `;
+    webhookDeliveries.inc({ outcome: 'dead' });
+    logger.error('Webhook delivery gave up', {
+      endpoint_id: delivery.endpoint_id,
+      delivery_id: delivery.delivery_id,
+      attempt,
+      reason: error,
+    });
+    return;
+  }
+
+  const delayMs = webhookRetryDelayMs(attempt);
+  await sql`
+    UPDATE webhook_deliveries
+    SET attempts = ${attempt}, last_status_code = ${statusCode}, last_error = ${error},
+        next_attempt_at = NOW() + (${delayMs}::int * INTERVAL '1 millisecond'), updated_at = NOW()
+    WHERE delivery_id = ${delivery.delivery_id}
+  `;
+  webhookDeliveries.inc({ outcome: 'retry' });
+  logger.warn('Webhook delivery failed, will retry', {
+    endpoint_id: delivery.endpoint_id,
+    delivery_id: delivery.delivery_id,
+    attempt,
+    delay_ms: delayMs,
+    reason: error,
+  });
+}
@@ -3,40 +3,94 @@ import { cors } from 'hono/cors';
 import { config } from './config';
 import orders from './routes/orders';
 import stats from './routes/stats';
+import orderExport from './routes/export';
 import health from './routes/health';
 import events from './routes/events';
+import bulkOrders from './routes/bulk-orders';
+import users from './routes/users';
+import admin from './routes/admin';
+import logLevel from './routes/log-level';
+import webhooks from './routes/webhooks';
 import { startUndecidedOrderWorker } from './workers/undecided-resolver';
+import { startUndecidedOrderSweeper } from './workers/undecided-sweeper';
+import { startStatsAggregator } from './workers/stats-aggregator';
+import { startWebhookDispatcher } from './workers/webhook-dispatcher';
+import { startOutboxRelay } from './workers/outbox-relay';
+import { startOrderPlacementConsumer } from './workers/order-placement-consumer';
 import { getRedisClient } from './helpers/redis-client';
+import { registerMetrics, printMetrics } from './helpers/metrics';
+import { tracingMiddleware } from './helpers/tracing';
+import { logContextMiddleware, logger } from './helpers/logger';
+import { rateLimit } from './helpers/rate-limit';
 
 const app = new Hono();
 
 // Middleware
 app.use('/*', cors());
+app.use('/*', registerMetrics);
+app.use('/*', tracingMiddleware);
+app.use('/*', logContextMiddleware);
+
+// Rate limits - only the first policy that matches a request is applied
+app.post('/api/orders', rateLimit('order_create'));
+app.post('/api/orders/bulk', rateLimit('order_bulk'));
+app.use('/api/*', rateLimit('api'));
+app.use('/internal/*', rateLimit('internal'));
 
 // Routes
-app.route('/api/orders', orders);
+// events first, so /api/orders/events is not taken for an order id
 app.route('/api/orders', events);
+app.route('/api/orders', bulkOrders);
+app.route('/api/orders', orders);
+app.route('/api/users', users);
 app.route('/internal/orders/stats', stats);
+app.route('/internal/orders/export', orderExport);
+app.route('/internal/orders', admin);
+app.route('/internal/webhooks', webhooks);
+app.route('/internal/log-level', logLevel);
 app.route('/health', health);
+app.get('/metrics', printMetrics);
 
 // Initialize Redis and start worker
 (async () => {
   try {
     await getRedisClient();
-    console.log('✅ Redis connection established');
+    logger.info('Redis connection established');
     
     // Start background worker for undecided order resolution
     startUndecidedOrderWorker().catch((error) => {
-      console.error('Worker crashed:', error);
+      logger.error('Worker crashed', { error });
     });
   } catch (error) {
-    console.error('Failed to initialize Redis:', error);
-    console.error('⚠️  Worker will not start - manual retry required for undecided orders');
+    logger.error('Failed to initialize Redis - worker will not start, the sweeper will resolve undecided orders from the database', { error });
   }
 })();
 
+// The sweeper only needs Postgres, so it runs whether or not Redis came up
+startUndecidedOrderSweeper().catch((error) => {
+  logger.error('Sweeper crashed', { error });
+});
+
+startStatsAggregator().catch((error) => {
+  logger.error('Stats aggregator crashed', { error });
+});
+
+startWebhookDispatcher().catch((error) => {
+  logger.error('Webhook dispatcher crashed', { error });
+});
+
+// Outbox entries are kept in Postgres until Redis is reachable
+startOutboxRelay().catch((error) => {
+  logger.error('Outbox relay crashed', { error });
+});
+
+// Reconnects on its own, so asynchronously accepted orders are placed once Redis is back
+startOrderPlacementConsumer().catch((error) => {
+  logger.error('Order placement consumer crashed', { error });
+});
+
 // Start server
-console.log(`Order Service running on port ${config.server.port}`);
+logger.info(`Order Service running on port ${config.server.port}`, { port: config.server.port });
 
 export default {
   port: config.server.port,
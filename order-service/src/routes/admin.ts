@@ -0,0 +1,295 @@
+import { Hono } from 'hono';
+import { sql } from '../db';
+import { recordDeductionTombstone, type DeductionLookupResponse } from '../helpers/inventory-client';
+import { getOrderItems } from '../helpers/order-helpers';
+import { transitionOrderStatus } from '../helpers/order-status';
+import { getRetryQueueSnapshot, publishRetryEvent, removeRetryEvent } from '../helpers/retry-events';
+import { logger, addLogContext } from '../helpers/logger';
+import { config } from '../config';
+
+const admin = new Hono();
+
+const DEFAULT_UNDECIDED_LIMIT = 100;
+const MAX_UNDECIDED_LIMIT = 200;
+
+// GET /internal/orders/undecided - Orders stuck in undecided with their retry state
+admin.get('/undecided', async (c) => {
+  try {
+    const limitParam = c.req.query('limit') || String(DEFAULT_UNDECIDED_LIMIT);
+    const limit = /^\d+$/.test(limitParam) ? parseInt(limitParam) : NaN;
+    if (!(limit >= 1 && limit <= MAX_UNDECIDED_LIMIT)) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: `limit must be an integer from 1 to ${MAX_UNDECIDED_LIMIT}` } }, 400);
+    }
+
+    const offsetParam = c.req.query('offset') || '0';
+    if (!/^\d+$/.test(offsetParam)) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'offset must be a non-negative integer' } }, 400);
+    }
+    const offset = parseInt(offsetParam);
+
+    const ordersList = await sql`
+      SELECT order_id, product_id, quantity, error_message, retry_attempts, next_retry_at, created_at, updated_at,
+        EXTRACT(EPOCH FROM (NOW() - created_at))::int AS age_seconds
+      FROM orders
+      WHERE status = 'undecided'
+      ORDER BY created_at ASC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const totalResult = await sql`SELECT COUNT(*) as count FROM orders WHERE status = 'undecided'`;
+    const total = parseInt(totalResult[0].count);
+
+    const queue = await getRetryQueueSnapshot().catch((error) => {
+      logger.error('Failed to read retry queue', { error });
+      return null;
+    });
+
+    return c.json({
+      orders: ordersList.map((order) => ({
+        ...order,
+        retry: queue ? describeRetryState(order.order_id, queue) : { state: 'unknown' },
+      })),
+      total,
+      limit,
+      offset,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching undecided orders', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /internal/orders/retry-events - Pending, in-flight and dead-lettered retry events
+admin.get('/retry-events', async (c) => {
+  try {
+    const queue = await getRetryQueueSnapshot();
+
+    return c.json({
+      queued: queue.queued.map((event) => ({
+        ...event,
+        scheduled_at: new Date(event.scheduled_at).toISOString(),
+      })),
+      processing: queue.processing.map((event) => ({
+        ...event,
+        scheduled_at: new Date(event.scheduled_at).toISOString(),
+        lease_expires_at: new Date(event.lease_expires_at).toISOString(),
+      })),
+      dead_letters: queue.dead_letters,
+      total: queue.queued.length + queue.processing.length + queue.dead_letters.length,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching retry events', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /internal/orders/:order_id/requeue - Verify an undecided order again right now
+admin.post('/:order_id/requeue', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+    const body = await c.req.json().catch(() => ({}));
+    const actor = c.req.header('X-Admin-User') || 'admin';
+
+    const existingOrder = await sql`SELECT status FROM orders WHERE order_id = ${orderId}`;
+
+    if (existingOrder.length === 0) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Order not found' } }, 404);
+    }
+
+    if (existingOrder[0].status !== 'undecided') {
+      return c.json({
+        error: { code: 'INVALID_STATE', message: `Order is ${existingOrder[0].status}, only undecided orders can be requeued` },
+      }, 409);
+    }
+
+    // Fresh attempt budget, due immediately; this also clears any dead letter
+    await publishRetryEvent({
+      order_id: orderId,
+      items: await getOrderItems(orderId),
+      attempt: 0,
+      max_attempts: config.worker.maxRetryAttempts,
+    }, { delayMs: 0 });
+
+    // ...and the same for the database sweeper
+    await sql`
+      UPDATE orders SET retry_attempts = 0, next_retry_at = NULL
+      WHERE order_id = ${orderId} AND status = 'undecided'
+    `;
+
+    await sql`
+      INSERT INTO order_admin_actions (order_id, action, from_status, to_status, reason, actor)
+      VALUES (${orderId}, 'requeue', 'undecided', 'undecided', ${body.reason || null}, ${actor})
+    `;
+
+    logger.info('Order requeued by operator', { admin_actor: actor });
+
+    return c.json({
+      order_id: orderId,
+      status: 'undecided',
+      message: 'Order requeued for verification',
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    logger.error('Error requeueing order', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /internal/orders/:order_id/resolve - Force an undecided order to confirmed or failed
+admin.post('/:order_id/resolve', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+    const body = await c.req.json().catch(() => ({}));
+    const { status, reason } = body;
+    const actor = c.req.header('X-Admin-User') || 'admin';
+
+    if (status !== 'confirmed' && status !== 'failed') {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "status must be 'confirmed' or 'failed'" } }, 400);
+    }
+
+    if (!reason || typeof reason !== 'string' || reason.trim().length === 0) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'reason is required' } }, 400);
+    }
+
+    const existingOrder = await sql`SELECT status FROM orders WHERE order_id = ${orderId}`;
+
+    if (existingOrder.length === 0) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Order not found' } }, 404);
+    }
+
+    if (existingOrder[0].status !== 'undecided') {
+      return c.json({
+        error: { code: 'INVALID_STATE', message: `Order is ${existingOrder[0].status}, only undecided orders can be resolved` },
+      }, 409);
+    }
+
+    // Failing an order that inventory did deduct would leak stock - only a tombstone
+    // stops a deduct still in flight, so without one the order stays undecided
+    if (status === 'failed') {
+      const tombstone = await recordDeductionTombstone(orderId, `Manually failed by ${actor}: ${reason}`);
+
+      if (!tombstone.success) {
+        logger.warn('Could not tombstone order before manual failure', { error: tombstone.error });
+        return c.json({
+          order_id: orderId,
+          status: 'undecided',
+          error: {
+            code: 'INVENTORY_SERVICE_TIMEOUT',
+            message: 'Could not tombstone the order in inventory. Retry the resolution later.',
+            timestamp: new Date().toISOString(),
+          },
+        }, 503);
+      }
+
+      if ((tombstone.data as DeductionLookupResponse).status === 'deducted') {
+        return c.json({
+          error: { code: 'DEDUCTION_EXISTS', message: 'Inventory was deducted for this order; resolve it as confirmed instead' },
+        }, 409);
+      }
+    }
+
+    const errorMessage = status === 'failed' ? `Manually failed: ${reason}` : null;
+
+    const updated = await sql.begin(async (tx) => {
+      const moved = await transitionOrderStatus({
+        order_id: orderId,
+        from: 'undecided',
+        to: status,
+        actor: 'admin',
+        error_message: errorMessage,
+      }, tx);
+
+      if (!moved) {
+        return false;
+      }
+
+      await tx`
+        INSERT INTO order_admin_actions (order_id, action, from_status, to_status, reason, actor)
+        VALUES (${orderId}, 'resolve', 'undecided', ${status}, ${reason}, ${actor})
+      `;
+
+      return true;
+    });
+
+    if (!updated) {
+      return c.json({ error: { code: 'INVALID_STATE', message: 'Order was resolved concurrently' } }, 409);
+    }
+
+    await removeRetryEvent(orderId).catch((error) => {
+      logger.error('Failed to remove retry event', { error });
+    });
+
+    logger.info('Order resolved by operator', { status, admin_actor: actor, reason });
+
+    return c.json({
+      order_id: orderId,
+      status,
+      message: `Order manually resolved to ${status}`,
+      reason,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error: any) {
+    logger.error('Error resolving order', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /internal/orders/:order_id/actions - Manual actions taken on an order
+admin.get('/:order_id/actions', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+
+    const actions = await sql`
+      SELECT action_id, action, from_status, to_status, reason, actor, created_at
+      FROM order_admin_actions
+      WHERE order_id = ${orderId}
+      ORDER BY created_at ASC
+    `;
+
+    return c.json({ order_id: orderId, actions, total: actions.length });
+  } catch (error: any) {
+    logger.error('Error fetching admin actions', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+function describeRetryState(orderId: string, queue: Awaited<ReturnType<typeof getRetryQueueSnapshot>>) {
+  const processing = queue.processing.find((event) => event.order_id === orderId);
+  if (processing) {
+    return {
+      state: 'processing',
+      attempt: processing.attempt,
+      max_attempts: processing.max_attempts,
+      lease_expires_at: new Date(processing.lease_expires_at).toISOString(),
+    };
+  }
+
+  const queued = queue.queued.find((event) => event.order_id === orderId);
+  if (queued) {
+    return {
+      state: 'queued',
+      attempt: queued.attempt,
+      max_attempts: queued.max_attempts,
+      next_attempt_at: new Date(queued.scheduled_at).toISOString(),
+    };
+  }
+
+  const deadLetter = queue.dead_letters.find((entry) => entry.event.order_id === orderId);
+  if (deadLetter) {
+    return {
+      state: 'dead_lettered',
+      attempt: deadLetter.event.attempt,
+      max_attempts: deadLetter.event.max_attempts,
+      reason: deadLetter.reason,
+      dead_lettered_at: deadLetter.dead_lettered_at,
+    };
+  }
+
+  // Nothing in Redis - the publish failed or the event was lost
+  return { state: 'missing' };
+}
+
+export default admin;
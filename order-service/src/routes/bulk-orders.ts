@@ -0,0 +1,345 @@
+import { Hono, type Context } from 'hono';
+import { sql } from '../db';
+import { checkInventoryAvailability, type InventoryAvailabilityResponse } from '../helpers/inventory-client';
+import { getOrderItems, type OrderItem } from '../helpers/order-helpers';
+import { requestFingerprint, diffItems } from '../helpers/fingerprint';
+import {
+  placeOrder,
+  requestedMode,
+  requestUserId,
+  idempotencyConflict,
+  orderIdTaken,
+  type PlacementMode,
+} from '../helpers/order-placement';
+import { bulkFormat, parseBulkOrders, type BulkRow } from '../helpers/bulk-orders';
+import { bulkOrderRows } from '../helpers/metrics';
+import { logger, addLogContext, runWithLogContext } from '../helpers/logger';
+import { config } from '../config';
+
+const bulkOrders = new Hono();
+
+// One line of the response stream per order, in the order rows finish
+interface RowResult {
+  type: 'row';
+  line: number;
+  order_id: string | null;
+  http_status: number; // What POST /api/orders would have answered for this row
+  status: string;
+  replay: boolean;
+  [field: string]: unknown;
+}
+
+interface ImportOptions {
+  mode: PlacementMode;
+  correlationId: string;
+  signal: AbortSignal; // Aborted when the client disconnects - no further rows are started
+}
+
+// POST /api/orders/bulk - Place many orders from NDJSON or CSV, streaming one result per order
+bulkOrders.post('/bulk', async (c) => {
+  const startedAt = Date.now();
+
+  try {
+    const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
+    const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId });
+
+    const format = bulkFormat(c.req.header('Content-Type'));
+    if (!format) {
+      return c.json({
+        error: { code: 'UNSUPPORTED_MEDIA_TYPE', message: 'Content-Type must be application/x-ndjson or text/csv' },
+      }, 415);
+    }
+
+    const dryRunParam = c.req.query('dry_run');
+    if (dryRunParam !== undefined && dryRunParam !== 'true' && dryRunParam !== 'false') {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "dry_run must be 'true' or 'false'" } }, 400);
+    }
+    const dryRun = dryRunParam === 'true';
+
+    const mode = requestedMode(c);
+    if (mode === null) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "mode must be 'sync' or 'async'" } }, 400);
+    }
+
+    const user = requestUserId(c);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+
+    if (parseInt(c.req.header('Content-Length') || '0') > config.bulkOrders.maxBytes) {
+      return payloadTooLarge(c);
+    }
+    const text = await c.req.text();
+    if (Buffer.byteLength(text) > config.bulkOrders.maxBytes) {
+      return payloadTooLarge(c);
+    }
+
+    const rows = parseBulkOrders(text, format);
+    if ('error' in rows) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: rows.error } }, 400);
+    }
+    if (rows.length === 0) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'The import contains no orders' } }, 400);
+    }
+    if (rows.length > config.bulkOrders.maxOrders) {
+      return c.json({
+        error: {
+          code: 'TOO_MANY_ORDERS',
+          message: `An import may hold at most ${config.bulkOrders.maxOrders} orders, this one has ${rows.length}`,
+        },
+      }, 413);
+    }
+
+    // Orders without a user_id of their own belong to the X-User-ID caller
+    for (const row of rows) {
+      if (row.error) continue;
+
+      const owner = requestUserId(c, row.user_id ?? undefined);
+      if ('error' in owner) {
+        row.error = owner.error;
+        delete row.items;
+      } else {
+        row.user_id = owner.user_id;
+      }
+    }
+
+    logger.info('Bulk order import started', { orders: rows.length, format, dry_run: dryRun, mode });
+
+    const options: ImportOptions = { mode, correlationId, signal: c.req.raw.signal };
+    const encoder = new TextEncoder();
+    const byStatus: Record<string, number> = {};
+    let processed = 0;
+    let replays = 0;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        const write = (line: object) => {
+          try {
+            controller.enqueue(encoder.encode(JSON.stringify(line) + '\n'));
+          } catch {
+            // Client disconnected - the rows already started still finish
+          }
+        };
+
+        const emit = (result: RowResult) => {
+          processed++;
+          byStatus[result.status] = (byStatus[result.status] ?? 0) + 1;
+          if (result.replay) replays++;
+          bulkOrderRows.inc({ status: result.status, dry_run: String(dryRun) });
+          write(result);
+        };
+
+        (async () => {
+          try {
+            await (dryRun ? checkRows(rows, options, emit) : placeRows(rows, options, emit));
+
+            const summary = {
+              type: 'summary',
+              dry_run: dryRun,
+              mode,
+              total: rows.length,
+              processed,
+              by_status: byStatus,
+              replays,
+              duration_ms: Date.now() - startedAt,
+            };
+
+            const { type: _type, ...fields } = summary;
+            logger.info('Bulk order import finished', { ...fields, aborted: options.signal.aborted });
+            write(summary);
+          } catch (error) {
+            logger.error('Bulk order import failed', { processed, error });
+            write({ type: 'error', error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+          } finally {
+            try {
+              controller.close();
+            } catch {
+              // Already closed by the client
+            }
+          }
+        })();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error: any) {
+    logger.error('Error importing orders', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+/**
+ * Place every row exactly as POST /api/orders would, with at most
+ * config.bulkOrders.concurrency rows in flight against inventory
+ */
+async function placeRows(rows: BulkRow[], options: ImportOptions, emit: (result: RowResult) => void): Promise<void> {
+  let next = 0;
+
+  const worker = async () => {
+    while (next < rows.length && !options.signal.aborted) {
+      emit(await placeRow(rows[next++], options));
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(config.bulkOrders.concurrency, rows.length) }, worker));
+}
+
+async function placeRow(row: BulkRow, options: ImportOptions): Promise<RowResult> {
+  if (row.error || !row.order_id || !row.items) {
+    return invalidRow(row);
+  }
+
+  // Each row is its own request for order_stats and the logs; the import shares one correlation id
+  const requestId = crypto.randomUUID();
+  const { order_id, items } = row;
+
+  return runWithLogContext({ order_id, request_id: requestId }, async () => {
+    try {
+      const result = await placeOrder({
+        order_id,
+        user_id: row.user_id,
+        items,
+        request_id: requestId,
+        correlation_id: options.correlationId,
+        mode: options.mode,
+      });
+      return rowResult(row, result.httpStatus, result.body, result.replay);
+    } catch (error) {
+      logger.error('Error placing imported order', { line: row.line, error });
+      return rowResult(row, 500, { error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } });
+    }
+  });
+}
+
+/**
+ * Dry run - validate every row and say what placing it would do, without deducting
+ * or recording anything. Stock comes from one availability check for the whole import,
+ * taken row by row in file order, so a later row can fall short because an earlier one
+ * would take the stock. Orders that exist already are answered as replays.
+ */
+async function checkRows(rows: BulkRow[], options: ImportOptions, emit: (result: RowResult) => void): Promise<void> {
+  const orderIds = rows.filter((row) => !row.error && row.order_id).map((row) => row.order_id!);
+  const existing = orderIds.length > 0
+    ? await sql`SELECT order_id, user_id, status, request_fingerprint FROM orders WHERE order_id IN ${sql(orderIds)}`
+    : [];
+  const existingOrders = new Map(existing.map((order) => [order.order_id as string, order]));
+
+  // Total demand per product across the orders that would be placed
+  const demand = new Map<string, number>();
+  for (const row of rows) {
+    if (row.error || !row.items || existingOrders.has(row.order_id!)) continue;
+    for (const item of row.items) {
+      demand.set(item.product_id, (demand.get(item.product_id) ?? 0) + item.quantity);
+    }
+  }
+
+  const availability = demand.size > 0
+    ? await checkInventoryAvailability(
+        [...demand].map(([product_id, quantity]) => ({ product_id, quantity })),
+        { 'x-request-id': crypto.randomUUID(), 'x-correlation-id': options.correlationId }
+      )
+    : { success: true, data: { available: true, items: [] } };
+
+  const stock = new Map<string, number>();
+  if (availability.success) {
+    for (const item of (availability.data as InventoryAvailabilityResponse).items) {
+      stock.set(item.product_id, item.available_quantity);
+    }
+  } else {
+    logger.warn('Inventory availability check failed during dry run', { error: availability.error });
+  }
+
+  for (const row of rows) {
+    if (options.signal.aborted) return;
+
+    if (row.error || !row.order_id || !row.items) {
+      emit(invalidRow(row));
+      continue;
+    }
+
+    const order = existingOrders.get(row.order_id);
+    if (order) {
+      emit(await existingOrderRow(row, row.items, order));
+      continue;
+    }
+
+    if (!availability.success) {
+      const code = availability.error === 'INVENTORY_UNAVAILABLE' ? 'INVENTORY_UNAVAILABLE' : 'INVENTORY_SERVICE_TIMEOUT';
+      emit(rowResult(row, 503, { error: { code, message: 'Could not check inventory availability' } }));
+      continue;
+    }
+
+    // An order deducts all of its lines or none, so only one that fits takes stock
+    const shortages = row.items
+      .filter((item) => (stock.get(item.product_id) ?? 0) < item.quantity)
+      .map((item) => ({ product_id: item.product_id, requested: item.quantity, available: stock.get(item.product_id) ?? 0 }));
+
+    if (shortages.length === 0) {
+      for (const item of row.items) {
+        stock.set(item.product_id, stock.get(item.product_id)! - item.quantity);
+      }
+    }
+
+    emit(rowResult(row, 200, {
+      status: shortages.length === 0 ? 'would_confirm' : 'would_fail',
+      items: row.items,
+      shortages,
+    }));
+  }
+}
+
+// What a replay would answer, without resolving undecided orders
+async function existingOrderRow(row: BulkRow, items: OrderItem[], order: any): Promise<RowResult> {
+  if ((order.user_id ?? null) !== row.user_id) {
+    const taken = orderIdTaken();
+    return rowResult(row, taken.httpStatus, taken.body);
+  }
+
+  const orderItems = await getOrderItems(order.order_id);
+
+  const originalFingerprint = order.request_fingerprint ?? requestFingerprint(orderItems);
+  if (originalFingerprint !== requestFingerprint(items)) {
+    const conflict = idempotencyConflict(diffItems(orderItems, items));
+    return rowResult(row, conflict.httpStatus, conflict.body);
+  }
+
+  return rowResult(row, 200, { status: order.status, items: orderItems }, true);
+}
+
+function invalidRow(row: BulkRow): RowResult {
+  return rowResult(row, 400, { error: { code: 'BAD_REQUEST', message: row.error ?? 'Invalid order' } });
+}
+
+function rowResult(row: BulkRow, httpStatus: number, body: Record<string, any>, replay = false): RowResult {
+  return {
+    type: 'row',
+    line: row.line,
+    ...body,
+    order_id: row.order_id,
+    http_status: httpStatus,
+    status: body.status ?? statusWithoutOrder(httpStatus),
+    replay,
+  };
+}
+
+// Rows answered before an order status existed for them
+function statusWithoutOrder(httpStatus: number): string {
+  if (httpStatus === 400) return 'invalid';
+  if (httpStatus === 500) return 'error';
+  return 'rejected'; // 409 order_id conflict, 503 inventory unavailable
+}
+
+function payloadTooLarge(c: Context) {
+  return c.json({
+    error: { code: 'PAYLOAD_TOO_LARGE', message: `An import may be at most ${config.bulkOrders.maxBytes} bytes` },
+  }, 413);
+}
+
+export default bulkOrders;
@@ -1,78 +1,243 @@
 import { Hono } from 'hono';
-import { subscribeToOrderStatus } from '../helpers/order-events';
+import { subscribeToOrderStatus, type OrderStatusEvent } from '../helpers/order-status-events';
 import { sql } from '../db';
+import { UNRESOLVED_STATUSES } from '../helpers/order-status';
+import { isVisibleTo } from '../helpers/order-helpers';
+import { requestUserId } from '../helpers/order-placement';
+import { sseConnections } from '../helpers/metrics';
+import { isRedisReady } from '../helpers/redis-client';
+import {
+  ORDER_EVENT_TYPES,
+  isStreamId,
+  subscribeToOrderEvents,
+  type OrderEventType,
+  type OrderLifecycleEvent,
+} from '../helpers/order-event-stream';
+import { logger } from '../helpers/logger';
+import { config } from '../config';
 
 const events = new Hono();
 
+// GET /api/orders/events - Firehose of every order lifecycle event, resumable via Last-Event-ID
+events.get('/events', async (c) => {
+  const statusFilter = parseListParam(c.req.query('status'));
+  const productFilter = parseListParam(c.req.query('product_id'));
+
+  if (statusFilter && statusFilter.some((status) => !ORDER_EVENT_TYPES.includes(status as OrderEventType))) {
+    return c.json({
+      error: { code: 'BAD_REQUEST', message: `status must be a comma-separated list of ${ORDER_EVENT_TYPES.join(', ')}` },
+    }, 400);
+  }
+
+  // EventSource sends Last-Event-ID on reconnect; the query param is for clients that cannot set headers
+  const lastEventId = c.req.header('Last-Event-ID') || c.req.query('last_event_id');
+  if (lastEventId && !isStreamId(lastEventId)) {
+    return c.json({ error: { code: 'BAD_REQUEST', message: 'Last-Event-ID must be an event id from this stream' } }, 400);
+  }
+
+  const user = requestUserId(c);
+  if ('error' in user) {
+    return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+  }
+
+  if (!isRedisReady()) {
+    return c.json({ error: { code: 'EVENT_STREAM_UNAVAILABLE', message: 'Order event stream is unavailable' } }, 503);
+  }
+
+  // Only the caller's own orders, like every other order route
+  const matches = (event: OrderLifecycleEvent) =>
+    isVisibleTo(event, user.user_id) &&
+    (!statusFilter || statusFilter.includes(event.type)) &&
+    (!productFilter || event.product_ids.some((productId) => productFilter.includes(productId)));
+
+  const encoder = new TextEncoder();
+  let streamController: ReadableStreamDefaultController | null = null;
+  let unsubscribe = () => {};
+  let heartbeatTimer: Timer | undefined;
+  let closed = false;
+  // Replayed events arrive before the response stream exists
+  const queued: string[] = [];
+
+  const send = (text: string) => {
+    if (closed) return;
+    if (streamController) {
+      streamController.enqueue(encoder.encode(text));
+    } else {
+      queued.push(text);
+    }
+  };
+
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatTimer);
+    unsubscribe();
+    sseConnections.dec();
+    try {
+      streamController?.close();
+    } catch {
+      // Already closed by the client
+    }
+  };
+
+  const onEvent = (event: OrderLifecycleEvent) => {
+    if (!matches(event)) return;
+    send(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  // Subscribed before the response starts, so a Redis failure can still be a 503
+  try {
+    unsubscribe = await subscribeToOrderEvents(lastEventId || null, onEvent);
+  } catch (error) {
+    logger.error('Failed to open order event stream', { error });
+    return c.json({ error: { code: 'EVENT_STREAM_UNAVAILABLE', message: 'Order event stream is unavailable' } }, 503);
+  }
+
+  const stream = new ReadableStream({
+    start(controller) {
+      streamController = controller;
+      sseConnections.inc();
+
+      // Reconnect quickly; the browser resends the last id it saw
+      send(`retry: 3000\n: connected${lastEventId ? `, resuming after ${lastEventId}` : ''}\n\n`);
+      queued.splice(0).forEach(send);
+
+      // Comment lines keep proxies from closing an idle stream
+      heartbeatTimer = setInterval(() => send(': keepalive\n\n'), config.sse.heartbeatMs);
+
+      c.req.raw.signal.addEventListener('abort', close);
+    },
+    cancel: close,
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+});
+
 // GET /api/orders/:order_id/events - Server-Sent Events endpoint for order status updates
 events.get('/:order_id/events', async (c) => {
   const orderId = c.req.param('order_id');
 
-  // Verify order exists
+  const user = requestUserId(c);
+  if ('error' in user) {
+    return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+  }
+
+  // Verify order exists (another user's order does not)
   const orderResult = await sql`
-    SELECT order_id, status FROM orders WHERE order_id = ${orderId}
+    SELECT order_id, user_id, status FROM orders WHERE order_id = ${orderId}
   `;
 
-  if (orderResult.length === 0) {
+  if (orderResult.length === 0 || !isVisibleTo(orderResult[0], user.user_id)) {
     return c.json({ error: 'Order not found' }, 404);
   }
 
   const order = orderResult[0];
 
   // If order is already resolved, return immediately
-  if (order.status !== 'undecided') {
+  if (!UNRESOLVED_STATUSES.includes(order.status)) {
     return c.json({ 
       status: order.status,
       message: 'Order already resolved'
     });
   }
 
-  // Set up SSE headers
-  c.header('Content-Type', 'text/event-stream');
-  c.header('Cache-Control', 'no-cache');
-  c.header('Connection', 'keep-alive');
-  c.header('X-Accel-Buffering', 'no'); // Disable nginx buffering
+  const encoder = new TextEncoder();
+  let streamController: ReadableStreamDefaultController | null = null;
+  let unsubscribe = () => {};
+  let heartbeatTimer: Timer | undefined;
+  let timeoutTimer: Timer | undefined;
+  let closed = false;
+
+  const send = (text: string) => {
+    if (!closed) {
+      streamController?.enqueue(encoder.encode(text));
+    }
+  };
+
+  // Every way out (update, timeout, client gone, error) releases the listener and both timers
+  const close = () => {
+    if (closed) return;
+    closed = true;
+    clearInterval(heartbeatTimer);
+    clearTimeout(timeoutTimer);
+    unsubscribe();
+    sseConnections.dec();
+    try {
+      streamController?.close();
+    } catch {
+      // Already closed by the client
+    }
+  };
+
+  const sendStatusUpdate = (event: OrderStatusEvent) => {
+    send(`event: status_update\ndata: ${JSON.stringify(event)}\n\n`);
+    close();
+  };
 
-  // Create a readable stream for SSE
   const stream = new ReadableStream({
-    async start(controller) {
-      const encoder = new TextEncoder();
+    start(controller) {
+      streamController = controller;
+      sseConnections.inc();
 
       // Send initial connection message
-      const initialMessage = `data: ${JSON.stringify({ 
+      send(`data: ${JSON.stringify({
         type: 'connected',
         order_id: orderId,
         message: 'Listening for status updates...'
-      })}\n\n`;
-      controller.enqueue(encoder.encode(initialMessage));
-
-      // Subscribe to order status updates
-      const unsubscribe = await subscribeToOrderStatus(orderId, (event) => {
-        // Send the status update to the client with proper event type
-        const message = `event: status_update\ndata: ${JSON.stringify(event)}\n\n`;
-        controller.enqueue(encoder.encode(message));
-
-        // Close the connection after sending the update
-        controller.close();
-      });
-
-      // Set up cleanup on connection close
-      c.req.raw.signal.addEventListener('abort', async () => {
-        await unsubscribe();
-        controller.close();
-      });
-
-      // Set timeout to close connection after 60 seconds if no update
-      setTimeout(async () => {
-        await unsubscribe();
-        const timeoutMessage = `data: ${JSON.stringify({
+      })}\n\n`);
+
+      // Comment lines keep proxies from closing an idle stream
+      heartbeatTimer = setInterval(() => send(': keepalive\n\n'), config.sse.heartbeatMs);
+
+      timeoutTimer = setTimeout(() => {
+        send(`data: ${JSON.stringify({
           type: 'timeout',
           message: 'No update received within timeout period'
-        })}\n\n`;
-        controller.enqueue(encoder.encode(timeoutMessage));
-        controller.close();
-      }, 60000); // 60 second timeout
+        })}\n\n`);
+        close();
+      }, config.sse.timeoutMs);
+
+      c.req.raw.signal.addEventListener('abort', close);
+
+      (async () => {
+        try {
+          const remove = await subscribeToOrderStatus(orderId, sendStatusUpdate);
+          if (closed) {
+            remove();
+            return;
+          }
+          unsubscribe = remove;
+
+          // The order may have been resolved between the first check and subscribing
+          const current = await sql`
+            SELECT status, error_message, updated_at FROM orders WHERE order_id = ${orderId}
+          `;
+          if (current.length > 0 && !UNRESOLVED_STATUSES.includes(current[0].status)) {
+            sendStatusUpdate({
+              order_id: orderId,
+              status: current[0].status,
+              error_message: current[0].error_message ?? undefined,
+              timestamp: new Date(current[0].updated_at).toISOString(),
+            });
+          }
+        } catch (error) {
+          logger.error('Failed to subscribe to order status updates', { order_id: orderId, error });
+          send(`event: error\ndata: ${JSON.stringify({
+            type: 'error',
+            message: 'Status updates are unavailable, poll GET /api/orders/{order_id} instead'
+          })}\n\n`);
+          close();
+        }
+      })();
     },
+    cancel: close,
   });
 
   return new Response(stream, {
@@ -80,9 +245,15 @@ events.get('/:order_id/events', async (c) => {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
-      'X-Accel-Buffering': 'no',
+      'X-Accel-Buffering': 'no', // Disable nginx buffering
     },
   });
 });
 
+function parseListParam(value: string | undefined): string[] | null {
+  if (!value) return null;
+  const list = value.split(',').map((item) => item.trim()).filter(Boolean);
+  return list.length > 0 ? list : null;
+}
+
 export default events;
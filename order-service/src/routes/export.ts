@@ -0,0 +1,274 @@
+import { Hono } from 'hono';
+import type { Row } from 'postgres';
+import { exportSql } from '../db';
+import { lookupInventoryDeductionForExport, type DeductionLookupResponse } from '../helpers/inventory-client';
+import { parseOrderFilters, parseOrderSort, orderFilterCondition, orderSortClause } from '../helpers/order-query';
+import { orderExportRows } from '../helpers/metrics';
+import { logger } from '../helpers/logger';
+import { config } from '../config';
+
+const orderExport = new Hono();
+
+type ExportFormat = 'csv' | 'ndjson';
+
+// Deduction recorded by inventory for a confirmed order; status 'unavailable' if it could not be looked up
+interface DeductionDetails {
+  status: DeductionLookupResponse['status'] | 'unavailable';
+  restored: boolean | null;
+  deducted_at: string | null;
+}
+
+const CSV_COLUMNS = [
+  'order_id', 'user_id', 'status', 'product_id', 'quantity', 'items', 'correlation_id', 'error_message', 'created_at', 'updated_at',
+];
+const DEDUCTION_CSV_COLUMNS = ['deduction_status', 'deduction_restored', 'deducted_at'];
+
+// Deduction lookups in flight across every export of this process, and the lookups waiting for a slot
+let lookupsInFlight = 0;
+const lookupQueue: Array<() => void> = [];
+
+// Exports streaming in this process; each holds a connection of exportSql until it ends
+let exportsInFlight = 0;
+
+// GET /internal/orders/export - Stream every matching order as CSV or NDJSON
+orderExport.get('/', async (c) => {
+  const startedAt = Date.now();
+
+  try {
+    const format = (c.req.query('format') || 'csv') as ExportFormat;
+    if (format !== 'csv' && format !== 'ndjson') {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "format must be 'csv' or 'ndjson'" } }, 400);
+    }
+
+    const include = c.req.query('include');
+    if (include !== undefined && include !== 'deductions') {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "include must be 'deductions'" } }, 400);
+    }
+    const includeDeductions = include === 'deductions';
+
+    const filters = parseOrderFilters(c);
+    if ('error' in filters) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: filters.error } }, 400);
+    }
+
+    // from/to are short for created_from/created_to
+    const fromParam = c.req.query('from');
+    const toParam = c.req.query('to');
+    if ((fromParam && filters.createdFrom) || (toParam && filters.createdTo)) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'from and to cannot be combined with created_from and created_to' } }, 400);
+    }
+
+    const from = fromParam ? new Date(fromParam) : filters.createdFrom;
+    const to = toParam ? new Date(toParam) : filters.createdTo;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'from and to must be ISO-8601 timestamps' } }, 400);
+    }
+    if (from && to && from >= to) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'from must be before to' } }, 400);
+    }
+    filters.createdFrom = from;
+    filters.createdTo = to;
+
+    // Oldest first, so an extract reads in the order things happened
+    const sort = parseOrderSort(c, 'created_at');
+    if ('error' in sort) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: sort.error } }, 400);
+    }
+
+    // Refused rather than queued - a waiting export would hold its client with no data
+    if (exportsInFlight >= config.orderExport.maxConcurrent) {
+      c.header('Retry-After', '30');
+      return c.json({
+        error: { code: 'EXPORT_BUSY', message: `At most ${config.orderExport.maxConcurrent} exports can run at once, retry later` },
+      }, 503);
+    }
+    exportsInFlight++;
+
+    let released = false;
+    const release = () => {
+      if (!released) {
+        released = true;
+        exportsInFlight--;
+      }
+    };
+
+    // Server-side cursor - only one batch is held in memory at a time
+    const batches = exportSql`
+      SELECT o.order_id, o.user_id, o.status, o.product_id, o.quantity, o.correlation_id, o.error_message, o.created_at, o.updated_at,
+        COALESCE((
+          SELECT json_agg(json_build_object('product_id', i.product_id, 'quantity', i.quantity) ORDER BY i.line_no)
+          FROM order_items i WHERE i.order_id = o.order_id
+        ), CASE
+          -- Orders from before order_items, not yet backfilled
+          WHEN o.product_id IS NOT NULL THEN json_build_array(json_build_object('product_id', o.product_id, 'quantity', o.quantity))
+          ELSE '[]'::json
+        END) AS items
+      FROM orders o
+      WHERE ${orderFilterCondition(filters)}
+      ${orderSortClause(sort)}
+    `.cursor(config.orderExport.batchSize)[Symbol.asyncIterator]();
+
+    logger.info('Order export started', { format, include_deductions: includeDeductions, sort: sort.name });
+
+    const encoder = new TextEncoder();
+    let exported = 0;
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const stream = new ReadableStream({
+      start(controller) {
+        if (format === 'csv') {
+          const columns = includeDeductions ? [...CSV_COLUMNS, ...DEDUCTION_CSV_COLUMNS] : CSV_COLUMNS;
+          controller.enqueue(encoder.encode(columns.join(',') + '\r\n'));
+        }
+      },
+      // Pulled as the client reads, so a slow reader slows the cursor down instead of buffering
+      async pull(controller) {
+        clearTimeout(idleTimer);
+
+        try {
+          const { value: rows, done } = await batches.next();
+          if (done) {
+            logger.info('Order export finished', { format, rows: exported, duration_ms: Date.now() - startedAt });
+            release();
+            controller.close();
+            return;
+          }
+
+          const deductions = includeDeductions ? await lookupDeductions(rows) : null;
+          const lines = rows.map((row) => {
+            const deduction = deductions ? deductions.get(row.order_id) ?? null : undefined;
+            return format === 'csv' ? csvLine(row, deduction) : ndjsonLine(row, deduction);
+          });
+
+          controller.enqueue(encoder.encode(lines.join('')));
+          exported += rows.length;
+          orderExportRows.inc({ format }, rows.length);
+
+          // The next pull comes when the client has read this batch
+          idleTimer = setTimeout(() => {
+            logger.warn('Order export abandoned, client stopped reading', { format, rows: exported });
+            release();
+            controller.error(new Error('Export client idle'));
+            batches.return?.().catch((error) => logger.error('Failed to close export cursor', { error }));
+          }, config.orderExport.idleTimeoutMs);
+        } catch (error) {
+          // The response ends without its final chunk, so the client sees the export as incomplete
+          logger.error('Order export failed', { format, rows: exported, error });
+          release();
+          controller.error(error);
+        }
+      },
+      async cancel() {
+        clearTimeout(idleTimer);
+        logger.info('Order export cancelled by client', { format, rows: exported });
+        release();
+        await batches.return?.();
+      },
+    });
+
+    const extension = format === 'csv' ? 'csv' : 'ndjson';
+    return new Response(stream, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/x-ndjson',
+        'Content-Disposition': `attachment; filename="orders-${new Date().toISOString().slice(0, 10)}.${extension}"`,
+        'Cache-Control': 'no-cache',
+        'X-Accel-Buffering': 'no',
+      },
+    });
+  } catch (error: any) {
+    logger.error('Error exporting orders', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+/**
+ * Inventory's deduction record for each confirmed order of a batch. At most
+ * config.orderExport.deductionConcurrency lookups are in flight across all exports.
+ */
+async function lookupDeductions(rows: Row[]): Promise<Map<string, DeductionDetails>> {
+  const orderIds = rows.filter((row) => row.status === 'confirmed').map((row) => row.order_id as string);
+  const deductions = new Map<string, DeductionDetails>();
+
+  await Promise.all(orderIds.map(async (orderId) => {
+    const result = await withLookupSlot(() => lookupInventoryDeductionForExport(orderId));
+
+    if (result.success) {
+      const lookup = result.data as DeductionLookupResponse;
+      deductions.set(orderId, { status: lookup.status, restored: lookup.restored, deducted_at: lookup.timestamp });
+    } else {
+      logger.warn('Deduction lookup failed during export', { order_id: orderId, error: result.error });
+      deductions.set(orderId, { status: 'unavailable', restored: null, deducted_at: null });
+    }
+  }));
+
+  return deductions;
+}
+
+// Runs `lookup` once one of the process-wide lookup slots is free
+async function withLookupSlot<T>(lookup: () => Promise<T>): Promise<T> {
+  if (lookupsInFlight >= config.orderExport.deductionConcurrency) {
+    await new Promise<void>((resolve) => lookupQueue.push(resolve));
+  } else {
+    lookupsInFlight++;
+  }
+
+  try {
+    return await lookup();
+  } finally {
+    // Hand the slot straight to the next waiter, or give it back
+    const next = lookupQueue.shift();
+    if (next) {
+      next();
+    } else {
+      lookupsInFlight--;
+    }
+  }
+}
+
+// deduction: undefined when not requested, null for orders that were not confirmed
+function ndjsonLine(row: Row, deduction: DeductionDetails | null | undefined): string {
+  const order: Record<string, unknown> = {
+    order_id: row.order_id,
+    user_id: row.user_id,
+    status: row.status,
+    product_id: row.product_id,
+    quantity: row.quantity,
+    items: row.items,
+    correlation_id: row.correlation_id,
+    error_message: row.error_message,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+  if (deduction !== undefined) {
+    order.deduction = deduction;
+  }
+  return JSON.stringify(order) + '\n';
+}
+
+function csvLine(row: Row, deduction: DeductionDetails | null | undefined): string {
+  const fields = [
+    row.order_id,
+    row.user_id,
+    row.status,
+    row.product_id,
+    row.quantity,
+    JSON.stringify(row.items),
+    row.correlation_id,
+    row.error_message,
+    row.created_at?.toISOString(),
+    row.updated_at?.toISOString(),
+  ];
+  if (deduction !== undefined) {
+    fields.push(deduction?.status, deduction?.restored, deduction?.deducted_at);
+  }
+  return fields.map(csvField).join(',') + '\r\n';
+}
+
+// null and undefined become empty fields; quoted when the value holds a separator or quote
+function csvField(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export default orderExport;
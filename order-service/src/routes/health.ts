@@ -1,6 +1,6 @@
 import { Hono } from 'hono';
 import { sql } from '../db';
-import { checkInventoryHealth } from '../helpers/inventory-client';
+import { checkInventoryHealth, getInventoryCircuitState } from '../helpers/inventory-client';
 
 const health = new Hono();
 
@@ -14,14 +14,19 @@ health.get('/', async (c) => {
     // Check inventory service
     const inventoryHealthy = await checkInventoryHealth();
     const inventoryStatus = inventoryHealthy ? 'healthy' : 'unhealthy';
+    const inventoryCircuit = getInventoryCircuitState();
 
-    const overallStatus = dbStatus === 'healthy' && inventoryStatus === 'healthy' ? 'healthy' : 'degraded';
+    // half_open is the breaker probing a recovery, not an outage - only a fully open circuit degrades us
+    const overallStatus = dbStatus === 'healthy' && inventoryStatus === 'healthy' && inventoryCircuit.state !== 'open'
+      ? 'healthy'
+      : 'degraded';
 
     return c.json({
       status: overallStatus,
       timestamp: new Date().toISOString(),
       dependencies: {
         inventory_service: inventoryStatus,
+        inventory_circuit_breaker: inventoryCircuit,
         database: dbStatus,
       },
     });
@@ -31,6 +36,7 @@ health.get('/', async (c) => {
       timestamp: new Date().toISOString(),
       dependencies: {
         inventory_service: 'unknown',
+        inventory_circuit_breaker: getInventoryCircuitState(),
         database: 'unhealthy',
       },
     }, 503);
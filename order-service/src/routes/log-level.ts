@@ -0,0 +1,26 @@
+import { Hono } from 'hono';
+import { getLogLevel, setLogLevel, isLogLevel, logger } from '../helpers/logger';
+
+const logLevel = new Hono();
+
+// GET /internal/log-level - Current log level
+logLevel.get('/', (c) => {
+  return c.json({ level: getLogLevel() });
+});
+
+// PUT /internal/log-level - Change the log level without a restart
+logLevel.put('/', async (c) => {
+  const body = await c.req.json().catch(() => ({}));
+
+  if (!isLogLevel(body.level)) {
+    return c.json({ error: { code: 'BAD_REQUEST', message: 'level must be one of debug, info, warn, error' } }, 400);
+  }
+
+  const previous = getLogLevel();
+  setLogLevel(body.level);
+  logger.warn('Log level changed', { previous_level: previous, new_level: body.level });
+
+  return c.json({ level: body.level, previous_level: previous });
+});
+
+export default logLevel;
@@ -1,8 +1,12 @@
-import { Hono } from 'hono';
+import { Hono, type Context } from 'hono';
 import { sql } from '../db';
-import { callInventoryDeduct, verifyInventoryDeduction } from '../helpers/inventory-client';
-import { publishRetryEvent } from '../helpers/retry-events';
-import { config } from '../config';
+import { callInventoryRestore } from '../helpers/inventory-client';
+import { resolveUndecidedOrder } from '../workers/undecided-resolver';
+import { parseOrderItems, getOrderItems, isVisibleTo } from '../helpers/order-helpers';
+import { transitionOrderStatus, getStatusHistory } from '../helpers/order-status';
+import { placeOrder, requestedMode, requestUserId, inventoryUnavailable, type PlacementResponse } from '../helpers/order-placement';
+import { parseOrderListQuery, listOrders } from '../helpers/order-query';
+import { logger, addLogContext } from '../helpers/logger';
 
 const orders = new Hono();
 
@@ -10,14 +14,16 @@ const orders = new Hono();
 orders.post('/', async (c) => {
   try {
     const body = await c.req.json();
-    const { product_id, quantity, order_id } = body;
+    const { order_id } = body;
 
     const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
     const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id });
 
-    // Validation
-    if (!product_id || !quantity || quantity <= 0) {
-      return c.json({ error: { code: 'BAD_REQUEST', message: 'Invalid input' } }, 400);
+    // Validation - accepts items[] or a single product_id/quantity
+    const parsed = parseOrderItems(body);
+    if ('error' in parsed) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: parsed.error } }, 400);
     }
 
     // Require client-provided order_id for idempotency
@@ -25,188 +31,208 @@ orders.post('/', async (c) => {
       return c.json({ error: { code: 'BAD_REQUEST', message: 'order_id is required (client must provide UUID)' } }, 400);
     }
 
-    // Check if order with this client-provided ID already exists (idempotency)
+    const mode = requestedMode(c);
+    if (mode === null) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "mode must be 'sync' or 'async'" } }, 400);
+    }
+
+    const user = requestUserId(c, body.user_id);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+
+    const result = await placeOrder({
+      order_id,
+      user_id: user.user_id,
+      items: parsed.items,
+      request_id: requestId,
+      correlation_id: correlationId,
+      mode,
+    });
+
+    return send(c, result);
+  } catch (error: any) {
+    logger.error('Error placing order', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /api/orders/:order_id/cancel - Cancel an order and put its stock back
+orders.post('/:order_id/cancel', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+
+    const requestId = c.req.header('X-Request-ID') || crypto.randomUUID();
+    const correlationId = c.req.header('X-Correlation-ID') || crypto.randomUUID();
+    addLogContext({ request_id: requestId, correlation_id: correlationId, order_id: orderId });
+
+    const user = requestUserId(c);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+
     const existingOrder = await sql`
-      SELECT * FROM orders WHERE order_id = ${order_id}
+      SELECT * FROM orders WHERE order_id = ${orderId}
     `;
 
-    if (existingOrder.length > 0) {
-
-      const order = existingOrder[0];
-        
-        // If status is undecided, verify with inventory service
-        if (order.status === 'undecided') {
-          console.log(`Verifying undecided order ${order.order_id} with inventory service`);
-          
-          const verifyResult = await verifyInventoryDeduction(
-            order.order_id,
-            order.product_id,
-            order.quantity
-          );
-
-          if (verifyResult.success) {
-            // Inventory was deducted, update order to confirmed
-            await sql`
-              UPDATE orders
-              SET status = 'confirmed', error_message = NULL
-              WHERE order_id = ${order.order_id}
-            `;
-            
-            return c.json({
-              order_id: order.order_id,
-              status: 'confirmed',
-              product_id: order.product_id,
-              quantity: order.quantity,
-              message: 'Order placed and fulfilled',
-              timestamp: order.created_at,
-            });
-          } else {
-            // Inventory was not deducted, update order to failed
-            const errorMessage = typeof verifyResult.error === 'string'
-              ? verifyResult.error
-              : verifyResult.error?.message || 'Inventory deduction failed';
-            
-            await sql`
-              UPDATE orders
-              SET status = 'failed', error_message = ${errorMessage}
-              WHERE order_id = ${order.order_id}
-            `;
-            
-            return c.json({
-              order_id: order.order_id,
-              status: 'failed',
-              product_id: order.product_id,
-              quantity: order.quantity,
-              message: errorMessage,
-              timestamp: order.created_at,
-            });
-          }
-        }
-        
-        // Return existing order (confirmed or failed)
+    if (existingOrder.length === 0 || !isVisibleTo(existingOrder[0], user.user_id)) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Order not found' } }, 404);
+    }
+
+    const order = existingOrder[0];
+    const orderItems = await getOrderItems(orderId);
+    let status: string = order.status;
+
+    // Already cancelled - idempotent replay
+    if (status === 'cancelled') {
+      return c.json({
+        order_id: orderId,
+        status: 'cancelled',
+        items: orderItems,
+        message: 'Order cancelled and stock restored',
+        timestamp: order.updated_at,
+      });
+    }
+
+    // Never restock something that was never deducted - settle undecided orders first
+    if (status === 'undecided') {
+      logger.info('Resolving undecided order before cancellation');
+
+      const outcome = await resolveUndecidedOrder(orderId, { actor: 'api' });
+      if (outcome.status === 'undecided') {
         return c.json({
-          order_id: order.order_id,
-          status: order.status,
-          product_id: order.product_id,
-          quantity: order.quantity,
-          message: order.status === 'confirmed' ? 'Order placed and fulfilled' : order.error_message,
-          timestamp: order.created_at,
-        });
+          order_id: orderId,
+          status: 'undecided',
+          error: {
+            code: 'INVENTORY_SERVICE_TIMEOUT',
+            message: 'Could not confirm inventory state. Retry the cancellation later.',
+            timestamp: new Date().toISOString(),
+          },
+        }, 503);
+      }
+      status = outcome.status;
     }
 
-    // Call inventory service to deduct stock (using client-provided order_id)
-    const inventoryResult = await callInventoryDeduct(order_id, product_id, quantity, {
+    if (status !== 'confirmed') {
+      return c.json({
+        error: { code: 'ORDER_NOT_CANCELLABLE', message: `Order is ${status} and cannot be cancelled` },
+      }, 409);
+    }
+
+    const restoreResult = await callInventoryRestore(orderId, {
       'x-request-id': requestId,
       'x-correlation-id': correlationId,
     });
 
-    if (inventoryResult.success) {
-      // Order confirmed - save to database
-      await sql`
-        INSERT INTO orders (order_id, product_id, quantity, status, request_id, correlation_id)
-        VALUES (${order_id}, ${product_id}, ${quantity}, 'confirmed', ${requestId}, ${correlationId})
-      `;
-
-      return c.json({
-        order_id: order_id,
-        status: 'confirmed',
-        product_id,
-        quantity,
-        message: 'Order placed and fulfilled',
-        timestamp: new Date().toISOString(),
-      });
-    } else {
-      // Handle timeout vs actual failure
-      if (inventoryResult.error === 'INVENTORY_SERVICE_TIMEOUT') {
-        // Set status as undecided since inventory may have been deducted
-        const errorMessage = 'Could not confirm inventory availability. Retry with the order ID.';
-        
-        await sql`
-          INSERT INTO orders (order_id, product_id, quantity, status, error_message, request_id, correlation_id)
-          VALUES (${order_id}, ${product_id}, ${quantity}, 'undecided', ${errorMessage}, ${requestId}, ${correlationId})
-        `;
-
-        // Publish retry event for automatic resolution
-        await publishRetryEvent({
-          order_id: order_id,
-          product_id: product_id,
-          quantity: quantity,
-          attempt: 0,
-          max_attempts: config.worker.maxRetryAttempts,
-        });
+    if (!restoreResult.success) {
+      // Order stays confirmed; the restore is idempotent so the client can simply retry
+      if (restoreResult.error === 'INVENTORY_UNAVAILABLE') {
+        return send(c, inventoryUnavailable());
+      }
 
+      if (restoreResult.error === 'INVENTORY_SERVICE_TIMEOUT') {
         return c.json({
-          order_id: order_id,
-          status: 'undecided',
+          order_id: orderId,
+          status: 'confirmed',
           error: {
             code: 'INVENTORY_SERVICE_TIMEOUT',
-            message: errorMessage,
+            message: 'Could not confirm stock restoration. Retry the cancellation.',
             timestamp: new Date().toISOString(),
           },
         }, 503);
       }
-      
-      // Actual failure (insufficient stock, etc.)
-      const errorMessage = typeof inventoryResult.error === 'string' 
-        ? inventoryResult.error 
-        : inventoryResult.error?.message || 'Insufficient inventory';
 
-      await sql`
-        INSERT INTO orders (order_id, product_id, quantity, status, error_message, request_id, correlation_id)
-        VALUES (${orderId}, ${product_id}, ${quantity}, 'failed', ${errorMessage}, ${requestId}, ${correlationId})
-      `;
+      const errorMessage = typeof restoreResult.error === 'string'
+        ? restoreResult.error
+        : restoreResult.error?.message || 'Stock restoration failed';
 
-      return c.json({
-        order_id: orderId,
-        status: 'failed',
-        product_id,
-        quantity,
-        message: errorMessage,
-        timestamp: new Date().toISOString(),
-      });
+      return c.json({ error: { code: 'INVENTORY_RESTORE_FAILED', message: errorMessage } }, 502);
     }
+
+    // A concurrent cancel may already have recorded it - either way the order is cancelled
+    await transitionOrderStatus({
+      order_id: orderId,
+      from: 'confirmed',
+      to: 'cancelled',
+      actor: 'api',
+    });
+
+    return c.json({
+      order_id: orderId,
+      status: 'cancelled',
+      items: orderItems,
+      message: 'Order cancelled and stock restored',
+      timestamp: new Date().toISOString(),
+    });
   } catch (error: any) {
-    console.error('Error placing order:', error);
+    logger.error('Error cancelling order', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
 
-// GET /api/orders - Get all order history
+// GET /api/orders - List orders, filtered and paginated by cursor or offset
 orders.get('/', async (c) => {
   try {
-    const status = c.req.query('status') || 'all';
-    const limit = parseInt(c.req.query('limit') || '50');
-    const offset = parseInt(c.req.query('offset') || '0');
-
-    let ordersList;
-    if (status === 'all') {
-      ordersList = await sql`
-        SELECT order_id, product_id, quantity, status, created_at as placed_at, error_message
-        FROM orders
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
-    } else {
-      ordersList = await sql`
-        SELECT order_id, product_id, quantity, status, created_at as placed_at, error_message
-        FROM orders
-        WHERE status = ${status}
-        ORDER BY created_at DESC
-        LIMIT ${limit} OFFSET ${offset}
-      `;
-    }
-
-    const totalResult = await sql`SELECT COUNT(*) as count FROM orders`;
-    const total = parseInt(totalResult[0].count);
+    const query = parseOrderListQuery(c);
+    if ('error' in query) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: query.error } }, 400);
+    }
+
+    const user = requestUserId(c);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+
+    // A named user lists only their own orders, an anonymous caller only anonymous ones
+    if (query.filters.userId && query.filters.userId !== user.user_id) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'User not found' } }, 404);
+    }
+    query.filters.userId = user.user_id;
+    query.filters.anonymousOnly = user.user_id === null;
+
+    const page = await listOrders(query);
+
+    return c.json({
+      orders: page.orders,
+      total: page.total,
+      limit: query.limit,
+      offset: query.offset,
+      sort: query.sort.name,
+      next_cursor: page.next_cursor,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching orders', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /api/orders/:order_id/history - Status timeline of an order
+orders.get('/:order_id/history', async (c) => {
+  try {
+    const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+
+    const user = requestUserId(c);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+
+    const existingOrder = await sql`SELECT status, user_id FROM orders WHERE order_id = ${orderId}`;
+
+    if (existingOrder.length === 0 || !isVisibleTo(existingOrder[0], user.user_id)) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Order not found' } }, 404);
+    }
+
+    const history = await getStatusHistory(orderId);
 
     return c.json({
-      orders: ordersList,
-      total,
-      limit,
-      offset,
+      order_id: orderId,
+      status: existingOrder[0].status,
+      history,
+      total: history.length,
     });
   } catch (error: any) {
-    console.error('Error fetching orders:', error);
+    logger.error('Error fetching order history', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
@@ -215,22 +241,39 @@ orders.get('/', async (c) => {
 orders.get('/:order_id', async (c) => {
   try {
     const orderId = c.req.param('order_id');
+    addLogContext({ order_id: orderId });
+
+    const user = requestUserId(c);
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
 
     const ordersList = await sql`
-      SELECT order_id, user_id, product_id, quantity, status, created_at as placed_at, error_message
+      SELECT order_id, user_id, product_id, quantity, status, created_at as placed_at, updated_at, correlation_id, error_message
       FROM orders
       WHERE order_id = ${orderId}
     `;
 
-    if (ordersList.length === 0) {
+    // Another user's order is reported as missing, not as forbidden
+    if (ordersList.length === 0 || !isVisibleTo(ordersList[0], user.user_id)) {
       return c.json({ error: { code: 'NOT_FOUND', message: 'Order not found' } }, 404);
     }
 
-    return c.json(ordersList[0]);
+    return c.json({
+      ...ordersList[0],
+      items: await getOrderItems(orderId),
+    });
   } catch (error: any) {
-    console.error('Error fetching order:', error);
+    logger.error('Error fetching order', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
 
+function send(c: Context, response: PlacementResponse) {
+  for (const [name, value] of Object.entries(response.headers)) {
+    c.header(name, value);
+  }
+  return c.json(response.body, response.httpStatus);
+}
+
 export default orders;
@@ -1,45 +1,161 @@
 import { Hono } from 'hono';
 import { sql } from '../db';
+import { logger } from '../helpers/logger';
+import { getInventoryLatencyStats } from '../helpers/inventory-client';
 
 const stats = new Hono();
 
+// Window covered by the time series when no from/to is given
+const DEFAULT_SERIES_WINDOW_MS = {
+  minute: 60 * 60 * 1000, // last hour
+  hour: 24 * 60 * 60 * 1000, // last day
+};
+
 // GET /internal/orders/stats - Get order statistics
 stats.get('/', async (c) => {
   try {
-    const from = c.req.query('from');
-    const to = c.req.query('to');
-
-    let statsResult;
-    if (from && to) {
-      statsResult = await sql`
-        SELECT
-          COUNT(*) as total_orders,
-          SUM(CASE WHEN status = 'confirmed' THEN 1 ELSE 0 END) as confirmed_orders,
-          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed_orders
-        FROM orders
-        WHERE created_at BETWEEN ${from} AND ${to}
-      `;
-    } else {
-      statsResult = await sql`
-        SELECT
-          COUNT(*) as total_orders,
-          SUM(CASE WHEN status = 'confirmed' THEN 1 ELSE 0 END) as confirmed_orders,
-          SUM(CASE WHEN status = 'failed' THEN 1 ELSE 0 END) as failed_orders
-        FROM orders
-      `;
+    const fromParam = c.req.query('from');
+    const toParam = c.req.query('to');
+    const granularity = c.req.query('granularity') || 'minute';
+
+    if (granularity !== 'minute' && granularity !== 'hour') {
+      return c.json({ error: { code: 'BAD_REQUEST', message: "granularity must be 'minute' or 'hour'" } }, 400);
+    }
+
+    const from = fromParam ? new Date(fromParam) : null;
+    const to = toParam ? new Date(toParam) : null;
+
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime()))) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'from and to must be ISO-8601 timestamps' } }, 400);
     }
 
+    if (from && to && from > to) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'from must be before to' } }, 400);
+    }
+
+    // Totals cover the requested range, or all time
+    const totalsFrom = from ?? new Date(0);
+    const totalsTo = to ?? new Date();
+
+    const orderTotals = await sql`
+      SELECT
+        COUNT(*) as total_orders,
+        COUNT(*) FILTER (WHERE status = 'confirmed') as confirmed_orders,
+        COUNT(*) FILTER (WHERE status = 'failed') as failed_orders,
+        COUNT(*) FILTER (WHERE status = 'undecided') as undecided_orders,
+        COUNT(*) FILTER (WHERE status = 'cancelled') as cancelled_orders,
+        COUNT(*) FILTER (WHERE status = 'pending') as pending_orders
+      FROM orders
+      WHERE created_at BETWEEN ${totalsFrom} AND ${totalsTo}
+    `;
+
+    const requestTotals = await sql`
+      SELECT
+        COUNT(*) as total_requests,
+        COUNT(*) FILTER (WHERE outcome = 'undecided') as timeout_errors,
+        COALESCE(ROUND(AVG(latency_ms)), 0)::int as avg_response_time_ms,
+        ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY latency_ms))::int as p50_response_time_ms,
+        ROUND(percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms))::int as p95_response_time_ms,
+        ROUND(percentile_cont(0.99) WITHIN GROUP (ORDER BY latency_ms))::int as p99_response_time_ms
+      FROM order_request_log
+      WHERE created_at BETWEEN ${totalsFrom} AND ${totalsTo}
+    `;
+
+    // The series defaults to a recent window so it stays a sensible size
+    const seriesTo = to ?? new Date();
+    const seriesFrom = from ?? new Date(seriesTo.getTime() - DEFAULT_SERIES_WINDOW_MS[granularity]);
+
+    const series = granularity === 'minute'
+      ? await getMinuteSeries(seriesFrom, seriesTo)
+      : await getHourSeries(seriesFrom, seriesTo);
+
+    const totals = orderTotals[0];
+    const requests = requestTotals[0];
+
     return c.json({
-      total_orders: parseInt(statsResult[0].total_orders),
-      confirmed_orders: parseInt(statsResult[0].confirmed_orders),
-      failed_orders: parseInt(statsResult[0].failed_orders),
-      pending_orders: 0,
-      average_processing_time_ms: 0,
+      total_orders: parseInt(totals.total_orders),
+      confirmed_orders: parseInt(totals.confirmed_orders),
+      failed_orders: parseInt(totals.failed_orders),
+      undecided_orders: parseInt(totals.undecided_orders),
+      cancelled_orders: parseInt(totals.cancelled_orders),
+      // Orders whose inventory outcome is not known yet - accepted asynchronously, or undecided
+      pending_orders: parseInt(totals.pending_orders) + parseInt(totals.undecided_orders),
+      total_requests: parseInt(requests.total_requests),
+      timeout_errors: parseInt(requests.timeout_errors),
+      average_processing_time_ms: requests.avg_response_time_ms,
+      p50_processing_time_ms: requests.p50_response_time_ms ?? 0,
+      p95_processing_time_ms: requests.p95_response_time_ms ?? 0,
+      p99_processing_time_ms: requests.p99_response_time_ms ?? 0,
+      // Live view of this instance's inventory calls: derived timeouts and hedging
+      inventory_client: getInventoryLatencyStats(),
+      granularity,
+      from: seriesFrom.toISOString(),
+      to: seriesTo.toISOString(),
+      series,
     });
   } catch (error: any) {
-    console.error('Error fetching stats:', error);
+    logger.error('Error fetching stats', { error });
     return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
   }
 });
 
+async function getMinuteSeries(from: Date, to: Date) {
+  const rows = await sql`
+    SELECT minute_bucket as bucket, total_requests, total_orders, confirmed_orders, failed_orders,
+      undecided_orders, timeout_errors, avg_response_time_ms,
+      p50_response_time_ms, p95_response_time_ms, p99_response_time_ms
+    FROM order_stats
+    WHERE minute_bucket >= date_trunc('minute', ${from}::timestamp) AND minute_bucket <= ${to}
+    ORDER BY minute_bucket ASC
+  `;
+
+  return rows.map((row) => ({ ...row, bucket: new Date(row.bucket).toISOString() }));
+}
+
+async function getHourSeries(from: Date, to: Date) {
+  // Counts roll up from the minute buckets; the average is weighted by request count
+  const rows = await sql`
+    SELECT
+      date_trunc('hour', minute_bucket) as bucket,
+      SUM(total_requests)::int as total_requests,
+      SUM(total_orders)::int as total_orders,
+      SUM(confirmed_orders)::int as confirmed_orders,
+      SUM(failed_orders)::int as failed_orders,
+      SUM(undecided_orders)::int as undecided_orders,
+      SUM(timeout_errors)::int as timeout_errors,
+      COALESCE(ROUND(SUM(avg_response_time_ms * total_requests)::numeric / NULLIF(SUM(total_requests), 0)), 0)::int
+        as avg_response_time_ms
+    FROM order_stats
+    WHERE minute_bucket >= date_trunc('hour', ${from}::timestamp) AND minute_bucket <= ${to}
+    GROUP BY 1
+    ORDER BY 1 ASC
+  `;
+
+  // Percentiles cannot be combined from minute buckets - compute them from the raw samples
+  const percentiles = await sql`
+    SELECT
+      date_trunc('hour', created_at) as bucket,
+      ROUND(percentile_cont(0.5) WITHIN GROUP (ORDER BY latency_ms))::int as p50_response_time_ms,
+      ROUND(percentile_cont(0.95) WITHIN GROUP (ORDER BY latency_ms))::int as p95_response_time_ms,
+      ROUND(percentile_cont(0.99) WITHIN GROUP (ORDER BY latency_ms))::int as p99_response_time_ms
+    FROM order_request_log
+    WHERE created_at >= date_trunc('hour', ${from}::timestamp) AND created_at <= ${to}
+    GROUP BY 1
+  `;
+
+  const percentilesByBucket = new Map(percentiles.map((row) => [new Date(row.bucket).getTime(), row]));
+
+  return rows.map((row) => {
+    const p = percentilesByBucket.get(new Date(row.bucket).getTime());
+    return {
+      ...row,
+      bucket: new Date(row.bucket).toISOString(),
+      // null once the raw samples for the hour have aged out
+      p50_response_time_ms: p?.p50_response_time_ms ?? null,
+      p95_response_time_ms: p?.p95_response_time_ms ?? null,
+      p99_response_time_ms: p?.p99_response_time_ms ?? null,
+    };
+  });
+}
+
 export default stats;
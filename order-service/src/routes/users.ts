@@ -0,0 +1,51 @@
+import { Hono } from 'hono';
+import { parseUserId } from '../helpers/order-helpers';
+import { requestUserId } from '../helpers/order-placement';
+import { parseOrderListQuery, listOrders } from '../helpers/order-query';
+import { logger, addLogContext } from '../helpers/logger';
+
+const users = new Hono();
+
+// GET /api/users/:user_id/orders - Order history of one user, filtered and paginated like GET /api/orders
+users.get('/:user_id/orders', async (c) => {
+  try {
+    const user = parseUserId(c.req.param('user_id'));
+    if ('error' in user) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: user.error } }, 400);
+    }
+    addLogContext({ user_id: user.user_id });
+
+    const caller = requestUserId(c);
+    if ('error' in caller) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: caller.error } }, 400);
+    }
+
+    // Another user's history does not exist for the caller (anonymous callers have none)
+    if (caller.user_id !== user.user_id) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'User not found' } }, 404);
+    }
+
+    const query = parseOrderListQuery(c);
+    if ('error' in query) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: query.error } }, 400);
+    }
+    query.filters.userId = user.user_id;
+
+    const page = await listOrders(query);
+
+    return c.json({
+      user_id: user.user_id,
+      orders: page.orders,
+      total: page.total,
+      limit: query.limit,
+      offset: query.offset,
+      sort: query.sort.name,
+      next_cursor: page.next_cursor,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching user orders', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+export default users;
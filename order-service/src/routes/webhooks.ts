@@ -0,0 +1,319 @@
+import { Hono, type Context } from 'hono';
+import { sql } from '../db';
+import { ORDER_EVENT_TYPES, type OrderEventType } from '../helpers/order-event-stream';
+import { generateWebhookSecret } from '../helpers/webhooks';
+import { logger } from '../helpers/logger';
+
+const webhooks = new Hono();
+
+// Secrets are only ever returned when they are set
+const ENDPOINT_COLUMNS = ['endpoint_id', 'url', 'event_types', 'description', 'active', 'created_at', 'updated_at'];
+
+const DEFAULT_DELIVERY_LIMIT = 50;
+const MAX_DELIVERY_LIMIT = 200;
+
+// GET /internal/webhooks/deliveries/:delivery_id - A delivery with its attempt log
+webhooks.get('/deliveries/:delivery_id', async (c) => {
+  try {
+    const deliveryId = parseId(c.req.param('delivery_id'));
+    if (deliveryId === null) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'delivery_id must be a positive integer' } }, 400);
+    }
+
+    const deliveries = await sql`SELECT * FROM webhook_deliveries WHERE delivery_id = ${deliveryId}`;
+    if (deliveries.length === 0) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Delivery not found' } }, 404);
+    }
+
+    const attempts = await sql`
+      SELECT attempt_id, attempt, status_code, error, duration_ms, created_at
+      FROM webhook_delivery_attempts
+      WHERE delivery_id = ${deliveryId}
+      ORDER BY attempt_id ASC
+    `;
+
+    return c.json({ ...deliveries[0], attempts });
+  } catch (error: any) {
+    logger.error('Error fetching webhook delivery', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /internal/webhooks/deliveries/:delivery_id/redeliver - Send a delivery again, from attempt 1
+webhooks.post('/deliveries/:delivery_id/redeliver', async (c) => {
+  try {
+    const deliveryId = parseId(c.req.param('delivery_id'));
+    if (deliveryId === null) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'delivery_id must be a positive integer' } }, 400);
+    }
+
+    // The attempt log is kept; the delivery goes back to the head of its endpoint's queue
+    const updated = await sql`
+      UPDATE webhook_deliveries
+      SET status = 'pending', attempts = 0, next_attempt_at = NOW(), delivered_at = NULL, updated_at = NOW()
+      WHERE delivery_id = ${deliveryId}
+      RETURNING delivery_id, endpoint_id, event_id, event_type, order_id, status, next_attempt_at
+    `;
+
+    if (updated.length === 0) {
+      return c.json({ error: { code: 'NOT_FOUND', message: 'Delivery not found' } }, 404);
+    }
+
+    logger.info('Webhook redelivery requested', {
+      order_id: updated[0].order_id,
+      delivery_id: updated[0].delivery_id,
+      endpoint_id: updated[0].endpoint_id,
+    });
+
+    return c.json(updated[0], 202);
+  } catch (error: any) {
+    logger.error('Error requesting webhook redelivery', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// POST /internal/webhooks - Register an endpoint
+webhooks.post('/', async (c) => {
+  try {
+    const body = await c.req.json().catch(() => ({}));
+
+    const invalid = validateEndpoint(body, { partial: false });
+    if (invalid) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: invalid } }, 400);
+    }
+
+    const secret = body.secret || generateWebhookSecret();
+
+    const created = await sql`
+      INSERT INTO webhook_endpoints (url, event_types, secret, description)
+      VALUES (${body.url}, ${body.event_types}, ${secret}, ${body.description || null})
+      RETURNING ${sql(ENDPOINT_COLUMNS)}
+    `;
+
+    logger.info('Webhook endpoint registered', { endpoint_id: created[0].endpoint_id, event_types: body.event_types });
+
+    // The only response that includes the secret
+    return c.json({ ...created[0], secret }, 201);
+  } catch (error: any) {
+    logger.error('Error registering webhook endpoint', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /internal/webhooks - List endpoints
+webhooks.get('/', async (c) => {
+  try {
+    const endpoints = await sql`SELECT ${sql(ENDPOINT_COLUMNS)} FROM webhook_endpoints ORDER BY endpoint_id ASC`;
+    return c.json({ endpoints, total: endpoints.length });
+  } catch (error: any) {
+    logger.error('Error fetching webhook endpoints', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /internal/webhooks/:endpoint_id - One endpoint with its delivery counts
+webhooks.get('/:endpoint_id', async (c) => {
+  try {
+    const endpointId = parseId(c.req.param('endpoint_id'));
+    if (endpointId === null) {
+      return endpointIdInvalid(c);
+    }
+
+    const endpoints = await sql`SELECT ${sql(ENDPOINT_COLUMNS)} FROM webhook_endpoints WHERE endpoint_id = ${endpointId}`;
+    if (endpoints.length === 0) {
+      return endpointNotFound(c);
+    }
+
+    const counts = await sql`
+      SELECT
+        COUNT(*) FILTER (WHERE status = 'pending') as pending,
+        COUNT(*) FILTER (WHERE status = 'delivered') as delivered,
+        COUNT(*) FILTER (WHERE status = 'dead') as dead
+      FROM webhook_deliveries
+      WHERE endpoint_id = ${endpointId}
+    `;
+
+    return c.json({
+      ...endpoints[0],
+      deliveries: {
+        pending: parseInt(counts[0].pending),
+        delivered: parseInt(counts[0].delivered),
+        dead: parseInt(counts[0].dead),
+      },
+    });
+  } catch (error: any) {
+    logger.error('Error fetching webhook endpoint', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// PATCH /internal/webhooks/:endpoint_id - Change url, event types, secret or active
+webhooks.patch('/:endpoint_id', async (c) => {
+  try {
+    const endpointId = parseId(c.req.param('endpoint_id'));
+    if (endpointId === null) {
+      return endpointIdInvalid(c);
+    }
+
+    const body = await c.req.json().catch(() => ({}));
+
+    const invalid = validateEndpoint(body, { partial: true });
+    if (invalid) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: invalid } }, 400);
+    }
+
+    const updated = await sql`
+      UPDATE webhook_endpoints
+      SET url = COALESCE(${body.url ?? null}, url),
+          event_types = COALESCE(${body.event_types ?? null}::text[], event_types),
+          secret = COALESCE(${body.secret ?? null}, secret),
+          description = COALESCE(${body.description ?? null}, description),
+          active = COALESCE(${body.active ?? null}::boolean, active),
+          updated_at = NOW()
+      WHERE endpoint_id = ${endpointId}
+      RETURNING ${sql(ENDPOINT_COLUMNS)}
+    `;
+
+    if (updated.length === 0) {
+      return endpointNotFound(c);
+    }
+
+    logger.info('Webhook endpoint updated', { endpoint_id: endpointId, fields: Object.keys(body) });
+
+    return c.json(updated[0]);
+  } catch (error: any) {
+    logger.error('Error updating webhook endpoint', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// DELETE /internal/webhooks/:endpoint_id - Remove an endpoint and its delivery log
+webhooks.delete('/:endpoint_id', async (c) => {
+  try {
+    const endpointId = parseId(c.req.param('endpoint_id'));
+    if (endpointId === null) {
+      return endpointIdInvalid(c);
+    }
+
+    const deleted = await sql`DELETE FROM webhook_endpoints WHERE endpoint_id = ${endpointId}`;
+    if (deleted.count === 0) {
+      return endpointNotFound(c);
+    }
+
+    logger.info('Webhook endpoint deleted', { endpoint_id: endpointId });
+
+    return c.json({ endpoint_id: endpointId, deleted: true });
+  } catch (error: any) {
+    logger.error('Error deleting webhook endpoint', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+// GET /internal/webhooks/:endpoint_id/deliveries - Delivery log of an endpoint, newest first
+webhooks.get('/:endpoint_id/deliveries', async (c) => {
+  try {
+    const endpointId = parseId(c.req.param('endpoint_id'));
+    if (endpointId === null) {
+      return endpointIdInvalid(c);
+    }
+
+    const status = c.req.query('status');
+    if (status && !['pending', 'delivered', 'dead'].includes(status)) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'status must be pending, delivered or dead' } }, 400);
+    }
+
+    const limit = parseId(c.req.query('limit') || String(DEFAULT_DELIVERY_LIMIT));
+    if (limit === null || limit > MAX_DELIVERY_LIMIT) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: `limit must be an integer from 1 to ${MAX_DELIVERY_LIMIT}` } }, 400);
+    }
+
+    const offsetParam = c.req.query('offset') || '0';
+    if (!/^\d+$/.test(offsetParam)) {
+      return c.json({ error: { code: 'BAD_REQUEST', message: 'offset must be a non-negative integer' } }, 400);
+    }
+    const offset = parseInt(offsetParam);
+
+    const endpoints = await sql`SELECT 1 FROM webhook_endpoints WHERE endpoint_id = ${endpointId}`;
+    if (endpoints.length === 0) {
+      return endpointNotFound(c);
+    }
+
+    const statusFilter = status ? sql`AND status = ${status}` : sql``;
+
+    const deliveries = await sql`
+      SELECT delivery_id, event_id, event_type, order_id, status, attempts, next_attempt_at,
+        last_status_code, last_error, delivered_at, created_at, updated_at
+      FROM webhook_deliveries
+      WHERE endpoint_id = ${endpointId} ${statusFilter}
+      ORDER BY delivery_id DESC
+      LIMIT ${limit} OFFSET ${offset}
+    `;
+
+    const totalResult = await sql`
+      SELECT COUNT(*) as count FROM webhook_deliveries WHERE endpoint_id = ${endpointId} ${statusFilter}
+    `;
+
+    return c.json({
+      deliveries,
+      total: parseInt(totalResult[0].count),
+      limit,
+      offset,
+    });
+  } catch (error: any) {
+    logger.error('Error fetching webhook deliveries', { error });
+    return c.json({ error: { code: 'INTERNAL_ERROR', message: 'Internal server error' } }, 500);
+  }
+});
+
+function parseId(value: string): number | null {
+  return /^\d+$/.test(value) && parseInt(value) > 0 ? parseInt(value) : null;
+}
+
+function endpointIdInvalid(c: Context) {
+  return c.json({ error: { code: 'BAD_REQUEST', message: 'endpoint_id must be a positive integer' } }, 400);
+}
+
+function endpointNotFound(c: Context) {
+  return c.json({ error: { code: 'NOT_FOUND', message: 'Webhook endpoint not found' } }, 404);
+}
+
+/**
+ * Returns an error message, or null if the body is acceptable.
+ * With `partial`, only the fields present are checked (PATCH).
+ */
+function validateEndpoint(body: any, { partial }: { partial: boolean }): string | null {
+  if (!partial || body.url !== undefined) {
+    let url: URL;
+    try {
+      url = new URL(body.url);
+    } catch {
+      return 'url must be an absolute http(s) URL';
+    }
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      return 'url must be an absolute http(s) URL';
+    }
+  }
+
+  if (!partial || body.event_types !== undefined) {
+    const types = body.event_types;
+    if (
+      !Array.isArray(types) ||
+      types.length === 0 ||
+      types.some((type: unknown) => !ORDER_EVENT_TYPES.includes(type as OrderEventType))
+    ) {
+      return `event_types must be a non-empty list of ${ORDER_EVENT_TYPES.join(', ')}`;
+    }
+  }
+
+  if (body.secret !== undefined && (typeof body.secret !== 'string' || body.secret.length < 16 || body.secret.length > 128)) {
+    return 'secret must be a string of 16 to 128 characters';
+  }
+
+  if (body.active !== undefined && typeof body.active !== 'boolean') {
+    return 'active must be a boolean';
+  }
+
+  return null;
+}
+
+export default webhooks;
@@ -0,0 +1,159 @@
+import { sql } from '../db';
+import { getRedisClient, type RedisClient } from '../helpers/redis-client';
+import { callInventoryDeduct } from '../helpers/inventory-client';
+import { transitionOrderStatus } from '../helpers/order-status';
+import { recordRetryEvent } from '../helpers/order-outbox';
+import {
+  ensurePlacementGroup,
+  readOrderPlacements,
+  claimStalePlacements,
+  ackOrderPlacement,
+  type OrderPlacement,
+} from '../helpers/order-placement-queue';
+import { orderPlacements } from '../helpers/metrics';
+import { config } from '../config';
+import { withSpan, contextFromTraceparent } from '../helpers/tracing';
+import { logger, runWithLogContext } from '../helpers/logger';
+
+let isRunning = false;
+let reader: RedisClient | null = null;
+
+/**
+ * Deducts inventory for orders accepted with 202. Every instance reads the placement
+ * stream as one consumer of a shared group. A placement is acknowledged once its order
+ * has left pending; one that is not (consumer died, inventory unavailable) is claimed
+ * again after config.asyncOrders.claimIdleMs. Deducts are idempotent per order_id, so
+ * a redelivery never deducts twice.
+ */
+export async function startOrderPlacementConsumer(): Promise<void> {
+  if (isRunning) {
+    logger.warn('Order placement consumer is already running');
+    return;
+  }
+
+  isRunning = true;
+  logger.info('Starting order placement consumer');
+
+  while (isRunning) {
+    try {
+      if (!reader) {
+        reader = await openReader();
+      }
+
+      const redis = await getRedisClient();
+
+      // Redeliveries first, then placements no consumer has seen yet
+      const placements = [...await claimStalePlacements(redis), ...await readOrderPlacements(reader)];
+
+      await Promise.all(placements.map((placement) => processPlacement(redis, placement)));
+    } catch (error) {
+      if (!isRunning) break;
+
+      logger.error('Error in order placement consumer loop', { error });
+      reader?.destroy();
+      reader = null;
+      await sleep(5000);
+    }
+  }
+}
+
+export function stopOrderPlacementConsumer(): void {
+  logger.info('Stopping order placement consumer');
+  isRunning = false;
+  reader?.destroy();
+  reader = null;
+}
+
+// XREADGROUP BLOCK ties up its connection, so the consumer reads on its own
+async function openReader(): Promise<RedisClient> {
+  const redis = await getRedisClient();
+  await ensurePlacementGroup(redis);
+
+  const connection = redis.duplicate();
+  connection.on('error', (error) => logger.error('Order placement reader error', { error }));
+  await connection.connect();
+  return connection;
+}
+
+async function processPlacement(redis: RedisClient, placement: OrderPlacement): Promise<void> {
+  await runWithLogContext({ order_id: placement.order_id, correlation_id: placement.correlation_id }, () =>
+    withSpan('placement.process', { 'order.id': placement.order_id }, async () => {
+      try {
+        if (await deductPendingOrder(placement)) {
+          await ackOrderPlacement(redis, placement);
+        }
+      } catch (error) {
+        // Left unacknowledged - claimed again after config.asyncOrders.claimIdleMs
+        logger.error('Error processing order placement', { error });
+      }
+    }, { parent: contextFromTraceparent(placement.traceparent) })
+  );
+}
+
+/**
+ * Deduct a pending order and record the outcome the way POST /api/orders does.
+ * Returns false if the placement should be tried again later.
+ */
+async function deductPendingOrder(placement: OrderPlacement): Promise<boolean> {
+  const { order_id, items } = placement;
+
+  // Already handled by an earlier delivery
+  const current = await sql`SELECT status FROM orders WHERE order_id = ${order_id}`;
+  if (current.length === 0 || current[0].status !== 'pending') {
+    return true;
+  }
+
+  const result = await callInventoryDeduct(order_id, items, {
+    'x-request-id': placement.request_id,
+    'x-correlation-id': placement.correlation_id ?? crypto.randomUUID(),
+  });
+
+  if (result.success) {
+    await transitionOrderStatus({ order_id, from: 'pending', to: 'confirmed', actor: 'worker' });
+    orderPlacements.inc({ outcome: 'confirmed' });
+    logger.info('Pending order confirmed');
+    return true;
+  }
+
+  // Circuit open - nothing was sent, so try again when the placement is claimed again
+  if (result.error === 'INVENTORY_UNAVAILABLE') {
+    orderPlacements.inc({ outcome: 'deferred' });
+    logger.warn('Inventory unavailable, pending order deferred', { retry_in_ms: config.asyncOrders.claimIdleMs });
+    return false;
+  }
+
+  // The deduction may have happened - hand the order to undecided resolution
+  if (result.error === 'INVENTORY_SERVICE_TIMEOUT') {
+    await sql.begin(async (tx) => {
+      const moved = await transitionOrderStatus({
+        order_id,
+        from: 'pending',
+        to: 'undecided',
+        actor: 'worker',
+        error_message: 'Could not confirm inventory availability. Retry with the order ID.',
+      }, tx);
+
+      if (moved) {
+        await recordRetryEvent(tx, { order_id, items, attempt: 0, max_attempts: config.worker.maxRetryAttempts });
+      }
+    });
+
+    orderPlacements.inc({ outcome: 'undecided' });
+    logger.warn('Inventory timed out, pending order is now undecided');
+    return true;
+  }
+
+  // Nothing was deducted (insufficient stock, DEADLINE_EXCEEDED, another cart under this order_id, etc.)
+  const errorMessage = typeof result.error === 'string'
+    ? result.error
+    : result.error?.message || 'Insufficient inventory';
+
+  await transitionOrderStatus({ order_id, from: 'pending', to: 'failed', actor: 'worker', error_message: errorMessage });
+  orderPlacements.inc({ outcome: 'failed' });
+  logger.info('Pending order failed', { reason: errorMessage });
+  return true;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
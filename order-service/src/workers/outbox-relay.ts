@@ -0,0 +1,71 @@
+import { relayOutboxBatch, pruneDispatchedOutbox } from '../helpers/order-outbox';
+import { getRedisClient, isRedisReady } from '../helpers/redis-client';
+import { logger } from '../helpers/logger';
+import { config } from '../config';
+
+let isRunning = false;
+
+// Dispatched entries are pruned at most this often
+const PRUNE_INTERVAL_MS = 10 * 60 * 1000;
+
+/**
+ * Publishes order_outbox entries to Redis (status channels, firehose, retry queue) and
+ * queues their webhook deliveries. Entries wait in Postgres while Redis is down.
+ */
+export async function startOutboxRelay(): Promise<void> {
+  if (isRunning) {
+    logger.warn('Outbox relay is already running');
+    return;
+  }
+
+  isRunning = true;
+  logger.info('Starting outbox relay');
+
+  let lastPrunedAt = 0;
+
+  while (isRunning) {
+    let dispatched: number | null = 0;
+
+    try {
+      if (await redisAvailable()) {
+        dispatched = await relayOutboxBatch();
+      }
+
+      if (Date.now() - lastPrunedAt >= PRUNE_INTERVAL_MS) {
+        lastPrunedAt = Date.now();
+        const pruned = await pruneDispatchedOutbox();
+        if (pruned > 0) {
+          logger.info('Pruned dispatched outbox entries', { count: pruned });
+        }
+      }
+    } catch (error) {
+      logger.error('Error in outbox relay loop', { error });
+    }
+
+    // A full batch means there is a backlog - keep going without waiting
+    if (dispatched !== config.outbox.batchSize) {
+      await sleep(config.outbox.pollIntervalMs);
+    }
+  }
+}
+
+export function stopOutboxRelay(): void {
+  logger.info('Stopping outbox relay');
+  isRunning = false;
+}
+
+// Connects if Redis never came up at startup; never waits on a reconnect in progress
+async function redisAvailable(): Promise<boolean> {
+  if (isRedisReady()) return true;
+
+  try {
+    const redis = await getRedisClient();
+    return redis.isReady;
+  } catch {
+    return false;
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,37 @@
+import { aggregateOrderStats } from '../helpers/order-stats';
+import { config } from '../config';
+import { logger } from '../helpers/logger';
+
+let isRunning = false;
+
+/**
+ * Rolls order_request_log up into per-minute order_stats rows
+ */
+export async function startStatsAggregator(): Promise<void> {
+  if (isRunning) {
+    logger.warn('Stats aggregator is already running');
+    return;
+  }
+
+  isRunning = true;
+  logger.info('Starting stats aggregator');
+
+  while (isRunning) {
+    try {
+      await aggregateOrderStats();
+    } catch (error) {
+      logger.error('Error aggregating order stats', { error });
+    }
+
+    await sleep(config.stats.aggregationIntervalMs);
+  }
+}
+
+export function stopStatsAggregator(): void {
+  logger.info('Stopping stats aggregator');
+  isRunning = false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -1,19 +1,28 @@
 import { sql } from '../db';
 import { verifyInventoryDeduction } from '../helpers/inventory-client';
-import { consumeRetryEvents, publishRetryEvent } from '../helpers/retry-events';
-import { publishOrderStatusChange } from '../helpers/order-status-events';
+import {
+  consumeRetryEvents,
+  publishRetryEvent,
+  ackRetryEvent,
+  deadLetterRetryEvent,
+  type RetryEvent,
+} from '../helpers/retry-events';
+import { transitionOrderStatus, type StatusActor } from '../helpers/order-status';
+import type { OrderItem } from '../helpers/order-helpers';
 import { config } from '../config';
+import { withSpan, contextFromTraceparent } from '../helpers/tracing';
+import { logger, runWithLogContext } from '../helpers/logger';
 
 let isRunning = false;
 
 export async function startUndecidedOrderWorker(): Promise<void> {
   if (isRunning) {
-    console.warn('Undecided order worker is already running');
+    logger.warn('Undecided order worker is already running');
     return;
   }
 
   isRunning = true;
-  console.log('🔄 Starting undecided order worker...');
+  logger.info('Starting undecided order worker');
 
   // Main worker loop
   while (isRunning) {
@@ -23,7 +32,7 @@ export async function startUndecidedOrderWorker(): Promise<void> {
       // Poll every 2 seconds
       await sleep(2000);
     } catch (error) {
-      console.error('Error in worker loop:', error);
+      logger.error('Error in worker loop', { error });
       // Continue running even if there's an error
       await sleep(5000); // Wait longer on error
     }
@@ -31,7 +40,7 @@ export async function startUndecidedOrderWorker(): Promise<void> {
 }
 
 export function stopUndecidedOrderWorker(): void {
-  console.log('🛑 Stopping undecided order worker...');
+  logger.info('Stopping undecided order worker');
   isRunning = false;
 }
 
@@ -42,88 +51,137 @@ async function processRetryEvents(): Promise<void> {
     return;
   }
 
-  console.log(`📦 Processing ${events.length} retry event(s)...`);
+  logger.debug('Processing retry events', { count: events.length });
+
+  // Process events in parallel, each continuing the trace and correlation id of the request that queued it
+  await Promise.all(events.map((event) =>
+    runWithLogContext({ order_id: event.order_id, correlation_id: event.correlation_id, attempt: event.attempt + 1 }, () =>
+      withSpan('retry.process', { 'order.id': event.order_id, 'retry.attempt': event.attempt + 1 }, () =>
+        processRetryEvent(event),
+        { parent: contextFromTraceparent(event.traceparent) }
+      )
+    )
+  ));
+}
+
+export type ResolutionOutcome =
+  | { status: 'confirmed' }
+  | { status: 'failed'; error: string }
+  | { status: 'undecided'; error: string };
+
+/**
+ * Verify an undecided order with the inventory service and persist the outcome.
+ * Transient errors leave the order undecided.
+ */
+export async function resolveUndecidedOrder(
+  orderId: string,
+  context: { actor: StatusActor; attempt?: number } = { actor: 'worker' }
+): Promise<ResolutionOutcome> {
+  // Read-only lookup - verification never deducts stock itself
+  const result = await verifyInventoryDeduction(orderId);
+
+  if (result.success) {
+    // Inventory was deducted - update order to confirmed (a no-op if another path already resolved it)
+    await transitionOrderStatus({
+      order_id: orderId,
+      from: 'undecided',
+      to: 'confirmed',
+      actor: context.actor,
+      attempt: context.attempt,
+    });
+
+    logger.info('Order confirmed (inventory was deducted)', { order_id: orderId, actor: context.actor });
+    return { status: 'confirmed' };
+  }
+
+  // Check if it's a transient error (timeout, network issue) or permanent failure
+  const errorMessage = typeof result.error === 'string'
+    ? result.error
+    : result.error?.message || 'Unknown error';
+
+  const isTransientError = result.transient === true ||
+                            errorMessage.includes('timeout') || 
+                            errorMessage.includes('network') ||
+                            errorMessage.includes('ECONNREFUSED');
 
-  // Process events in parallel
-  await Promise.all(events.map(processRetryEvent));
+  if (isTransientError) {
+    return { status: 'undecided', error: errorMessage };
+  }
+
+  // Permanent failure
+  await transitionOrderStatus({
+    order_id: orderId,
+    from: 'undecided',
+    to: 'failed',
+    actor: context.actor,
+    attempt: context.attempt,
+    error_message: errorMessage,
+  });
+
+  return { status: 'failed', error: errorMessage };
 }
 
 async function processRetryEvent(event: any): Promise<void> {
-  const { order_id, product_id, quantity, attempt, max_attempts } = event;
+  const { order_id, attempt, max_attempts } = event;
+
+  // Events queued before multi-item orders carry a single product_id/quantity
+  const items: OrderItem[] = event.items ?? [{ product_id: event.product_id, quantity: event.quantity }];
+  const retryEvent: RetryEvent = { ...event, items };
 
   try {
-    console.log(`🔍 Verifying order ${order_id}, attempt ${attempt + 1}/${max_attempts}`);
+    // The database sweeper or an operator may have resolved it while it sat in the queue
+    const current = await sql`SELECT status FROM orders WHERE order_id = ${order_id}`;
+    if (current.length === 0 || current[0].status !== 'undecided') {
+      await ackRetryEvent(order_id);
+      return;
+    }
 
-    // Verify with inventory service
-    const result = await verifyInventoryDeduction(order_id, product_id, quantity);
+    logger.info('Verifying undecided order', { attempt: attempt + 1, max_attempts });
 
-    if (result.success) {
-      // Inventory was deducted - update order to confirmed
-      await sql`
-        UPDATE orders
-        SET status = 'confirmed', error_message = NULL, updated_at = NOW()
-        WHERE order_id = ${order_id} AND status = 'undecided'
-      `;
+    const outcome = await resolveUndecidedOrder(order_id, { actor: 'worker', attempt: attempt + 1 });
 
-      console.log(`✅ Order ${order_id} confirmed (inventory was deducted)`);
-      
-      // Publish status change event for SSE clients
-      await publishOrderStatusChange(order_id, 'confirmed');
-    } else {
-      // Check if it's a transient error (timeout, network issue) or permanent failure
-      const errorMessage = typeof result.error === 'string'
-        ? result.error
-        : result.error?.message || 'Unknown error';
-
-      const isTransientError = errorMessage.includes('timeout') || 
-                                errorMessage.includes('network') ||
-                                errorMessage.includes('ECONNREFUSED');
-
-      if (isTransientError && attempt < max_attempts - 1) {
-        // Retry again with exponential backoff
-        console.log(`⏳ Transient error for order ${order_id}: ${errorMessage}. Retrying...`);
-        
-        await publishRetryEvent({
-          order_id,
-          product_id,
-          quantity,
-          attempt: attempt + 1,
-          max_attempts,
-        });
-      } else {
-        // Permanent failure or max attempts reached
-        await sql`
-          UPDATE orders
-          SET status = 'failed', error_message = ${errorMessage}, updated_at = NOW()
-          WHERE order_id = ${order_id} AND status = 'undecided'
-        `;
-
-        // Publish status change event for SSE clients
-        await publishOrderStatusChange(order_id, 'failed', errorMessage);
-
-        if (attempt >= max_attempts - 1) {
-          console.log(`❌ Order ${order_id} failed after ${max_attempts} attempts: ${errorMessage}`);
-        } else {
-          console.log(`❌ Order ${order_id} failed (permanent): ${errorMessage}`);
-        }
-      }
+    if (outcome.status === 'undecided') {
+      await retryOrDeadLetter(retryEvent, outcome.error);
+      return;
     }
-  } catch (error: any) {
-    console.error(`Error processing retry event for order ${order_id}:`, error);
-    
-    // If we hit an error processing the event, retry if we haven't exceeded max attempts
-    if (attempt < max_attempts - 1) {
-      await publishRetryEvent({
-        order_id,
-        product_id,
-        quantity,
-        attempt: attempt + 1,
-        max_attempts,
-      });
+
+    if (outcome.status === 'failed') {
+      logger.info('Order failed (permanent)', { reason: outcome.error });
     }
+
+    await ackRetryEvent(order_id);
+  } catch (error: any) {
+    logger.error('Error processing retry event', { error });
+    await retryOrDeadLetter(retryEvent, error.message || 'Error processing retry event');
   }
 }
 
+/**
+ * Re-publish with exponential backoff, or dead-letter once max_attempts is exhausted.
+ * The order stays undecided either way - we never guess the outcome.
+ */
+async function retryOrDeadLetter(event: RetryEvent, reason: string): Promise<void> {
+  const { order_id, items, attempt, max_attempts, traceparent, correlation_id } = event;
+
+  if (attempt < max_attempts - 1) {
+    logger.warn('Transient error verifying order, retrying', { reason });
+
+    await publishRetryEvent({
+      order_id,
+      items,
+      attempt: attempt + 1,
+      max_attempts,
+      traceparent,
+      correlation_id,
+    });
+    await ackRetryEvent(order_id);
+    return;
+  }
+
+  logger.error('Order still undecided after max attempts', { max_attempts, reason });
+  await deadLetterRetryEvent(event, reason);
+}
+
 function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
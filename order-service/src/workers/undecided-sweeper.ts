@@ -0,0 +1,182 @@
+import { sql } from '../db';
+import { isRedisReady } from '../helpers/redis-client';
+import { getRetryEventState, publishRetryEvent, retryDelayMs } from '../helpers/retry-events';
+import { getOrderItems } from '../helpers/order-helpers';
+import { recordOrderPlacement } from '../helpers/order-outbox';
+import { resolveUndecidedOrder } from './undecided-resolver';
+import { config } from '../config';
+import { withSpan } from '../helpers/tracing';
+import { logger, runWithLogContext } from '../helpers/logger';
+
+let isRunning = false;
+
+/**
+ * Safety net for the Redis retry queue. Periodically picks up orders that have
+ * been undecided longer than config.sweeper.thresholdMs straight from Postgres.
+ * While Redis is up, orders it already tracks are left alone and lost ones are
+ * handed back to it; while Redis is down, orders are verified here directly.
+ * Orders stuck in pending are queued for the placement consumer again.
+ */
+export async function startUndecidedOrderSweeper(): Promise<void> {
+  if (isRunning) {
+    logger.warn('Undecided order sweeper is already running');
+    return;
+  }
+
+  isRunning = true;
+  logger.info('Starting undecided order sweeper');
+
+  while (isRunning) {
+    try {
+      await sweepUndecidedOrders();
+      await sweepPendingOrders();
+    } catch (error) {
+      logger.error('Error in sweeper loop', { error });
+    }
+
+    await sleep(config.sweeper.intervalMs);
+  }
+}
+
+export function stopUndecidedOrderSweeper(): void {
+  logger.info('Stopping undecided order sweeper');
+  isRunning = false;
+}
+
+async function sweepUndecidedOrders(): Promise<void> {
+  // Claim a batch by pushing next_retry_at past a lease; SKIP LOCKED keeps
+  // several order-service instances from sweeping the same rows
+  const claimed = await sql`
+    UPDATE orders
+    SET next_retry_at = NOW() + (${config.worker.leaseMs}::int * INTERVAL '1 millisecond')
+    WHERE order_id IN (
+      SELECT order_id FROM orders
+      WHERE status = 'undecided'
+        AND created_at < NOW() - (${config.sweeper.thresholdMs}::int * INTERVAL '1 millisecond')
+        AND retry_attempts < ${config.worker.maxRetryAttempts}
+        AND (next_retry_at IS NULL OR next_retry_at <= NOW())
+      ORDER BY created_at ASC
+      LIMIT ${config.sweeper.batchSize}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING order_id, retry_attempts
+  `;
+
+  if (claimed.length === 0) {
+    return;
+  }
+
+  const redisReady = isRedisReady();
+  logger.info('Sweeping undecided orders', { count: claimed.length, redis_ready: redisReady });
+
+  for (const order of claimed) {
+    await runWithLogContext({ order_id: order.order_id }, async () => {
+      try {
+        await withSpan('sweeper.sweep_order', { 'order.id': order.order_id, 'redis.ready': redisReady }, () =>
+          sweepOrder(order.order_id, order.retry_attempts, redisReady)
+        );
+      } catch (error) {
+        // The lease expires and the order is picked up by a later sweep
+        logger.error('Error sweeping order', { error });
+      }
+    });
+  }
+}
+
+async function sweepOrder(orderId: string, retryAttempts: number, redisReady: boolean): Promise<void> {
+  if (redisReady) {
+    try {
+      const state = await getRetryEventState(orderId);
+
+      if (state === null) {
+        // The retry event was never published or got lost - give it back to the queue
+        logger.warn('Order missing from the retry queue, re-publishing');
+        await publishRetryEvent({
+          order_id: orderId,
+          items: await getOrderItems(orderId),
+          attempt: 0,
+          max_attempts: config.worker.maxRetryAttempts,
+        }, { delayMs: 0 });
+      }
+
+      // The Redis worker owns the order now; check back after another threshold
+      await sql`
+        UPDATE orders
+        SET next_retry_at = NOW() + (${config.sweeper.thresholdMs}::int * INTERVAL '1 millisecond')
+        WHERE order_id = ${orderId} AND status = 'undecided'
+      `;
+      return;
+    } catch (error) {
+      logger.warn('Could not read retry state, verifying directly', { error });
+    }
+  }
+
+  logger.info('Sweeper verifying undecided order', { attempt: retryAttempts + 1, max_attempts: config.worker.maxRetryAttempts });
+
+  const outcome = await resolveUndecidedOrder(orderId, { actor: 'worker', attempt: retryAttempts + 1 });
+
+  if (outcome.status === 'failed') {
+    logger.info('Order failed (permanent)', { reason: outcome.error });
+  }
+
+  if (outcome.status !== 'undecided') {
+    return;
+  }
+
+  // Same exponential backoff as the Redis queue
+  const attempt = retryAttempts + 1;
+  await sql`
+    UPDATE orders
+    SET retry_attempts = ${attempt},
+        next_retry_at = NOW() + (${retryDelayMs(retryAttempts)}::int * INTERVAL '1 millisecond')
+    WHERE order_id = ${orderId} AND status = 'undecided'
+  `;
+
+  if (attempt >= config.worker.maxRetryAttempts) {
+    logger.error('Order still undecided after max sweeper attempts', { attempt, reason: outcome.error });
+  } else {
+    logger.warn('Transient error verifying order, sweeper will retry', { attempt, reason: outcome.error });
+  }
+}
+
+/**
+ * Queue orders pending longer than config.asyncOrders.stalePendingMs again, in case Redis
+ * lost their placement. A duplicate is harmless - the consumer skips orders that are no
+ * longer pending. Each order is checked again after another threshold.
+ */
+async function sweepPendingOrders(): Promise<void> {
+  const requeued = await sql.begin(async (tx) => {
+    const stale = await tx`
+      UPDATE orders
+      SET next_retry_at = NOW() + (${config.asyncOrders.stalePendingMs}::int * INTERVAL '1 millisecond')
+      WHERE order_id IN (
+        SELECT order_id FROM orders
+        WHERE status = 'pending'
+          AND created_at < NOW() - (${config.asyncOrders.stalePendingMs}::int * INTERVAL '1 millisecond')
+          AND (next_retry_at IS NULL OR next_retry_at <= NOW())
+        ORDER BY created_at ASC
+        LIMIT ${config.sweeper.batchSize}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING order_id, request_id
+    `;
+
+    for (const order of stale) {
+      await recordOrderPlacement(tx, {
+        order_id: order.order_id,
+        items: await getOrderItems(order.order_id),
+        request_id: order.request_id ?? crypto.randomUUID(),
+      });
+    }
+
+    return stale.length;
+  }) as number;
+
+  if (requeued > 0) {
+    logger.warn('Re-queued stale pending orders', { count: requeued });
+  }
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
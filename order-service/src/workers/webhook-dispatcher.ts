@@ -0,0 +1,49 @@
+import { claimDueDeliveries, sendDelivery } from '../helpers/webhooks';
+import { logger, runWithLogContext } from '../helpers/logger';
+import { config } from '../config';
+
+let isRunning = false;
+
+/**
+ * Sends queued webhook deliveries. Each poll claims the head of every endpoint's
+ * queue, so endpoints are served in parallel but each one in order.
+ */
+export async function startWebhookDispatcher(): Promise<void> {
+  if (isRunning) {
+    logger.warn('Webhook dispatcher is already running');
+    return;
+  }
+
+  isRunning = true;
+  logger.info('Starting webhook dispatcher');
+
+  while (isRunning) {
+    try {
+      const deliveries = await claimDueDeliveries();
+
+      await Promise.all(deliveries.map((delivery) =>
+        runWithLogContext({ order_id: delivery.order_id }, async () => {
+          try {
+            await sendDelivery(delivery);
+          } catch (error) {
+            // The lease expires and the delivery is claimed again
+            logger.error('Error sending webhook delivery', { delivery_id: delivery.delivery_id, error });
+          }
+        })
+      ));
+    } catch (error) {
+      logger.error('Error in webhook dispatcher loop', { error });
+    }
+
+    await sleep(config.webhooks.pollIntervalMs);
+  }
+}
+
+export function stopWebhookDispatcher(): void {
+  logger.info('Stopping webhook dispatcher');
+  isRunning = false;
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}